@@ -0,0 +1,106 @@
+"use client";
+
+import Image from "next/image";
+import MatchArchiveList from "@/components/MatchArchiveList";
+import MatchHistoryModal from "@/components/MatchHistoryModal";
+import { useMatchArchive } from "@/hooks/useMatchArchive";
+
+/**
+ * @summary
+ * The match archive page: every finished or abandoned match saved on this device.
+ *
+ * @description
+ * Like the main `Page`, this is a "dumb" component: the archive is read,
+ * filtered and changed by the `useMatchArchive` hook. A match opens in the
+ * same `MatchHistoryModal` views as the live match.
+ *
+ * @returns {JSX.Element} The archive UI.
+ */
+export default function ArchivePage() {
+  const {
+    matches,
+    totalCount,
+    ruleSetOptions,
+    isLoading,
+    error,
+    importErrors,
+    importNotice,
+    filters,
+    selectedIds,
+    openedMatch,
+    setFilter,
+    clearFilters,
+    toggleSelected,
+    toggleSelectAll,
+    deleteMatches,
+    exportMatches,
+    importFile,
+    setOpenedMatch,
+  } = useMatchArchive();
+
+  return (
+    <div className="flex flex-col min-h-screen bg-primary font-sans relative z-0 before:content-[''] before:absolute before:inset-0 before:bg-[url('/background.svg')] before:bg-no-repeat before:bg-cover before:opacity-20 before:z-[-1]">
+      {/* --- Header --- */}
+      <header className="flex flex-row justify-between items-center w-full font-main py-4 px-4 md:px-28">
+        <a href={"/"}>
+          <Image
+            src="/logo-navbar.svg"
+            width={180}
+            height={180}
+            className="w-18 md:w-36"
+            alt="Badminton Score Logo"
+          />
+        </a>
+        <h1 className="text-white text-2xl md:text-4xl tracking-widest">
+          MATCH ARCHIVE
+        </h1>
+      </header>
+
+      {/* --- Main Content Area --- */}
+      <main className="flex flex-col items-center flex-1 w-full px-2 pb-8">
+        {error && (
+          <p className="mb-4 bg-red-100 text-red-700 font-main rounded-md px-4 py-2">
+            {error}
+          </p>
+        )}
+        {isLoading ? (
+          <p className="text-white font-main sm:text-xl">Loading…</p>
+        ) : (
+          <MatchArchiveList
+            matches={matches}
+            totalCount={totalCount}
+            ruleSetOptions={ruleSetOptions}
+            filters={filters}
+            selectedIds={selectedIds}
+            onFilterChange={setFilter}
+            onClearFilters={clearFilters}
+            onToggleSelected={toggleSelected}
+            onToggleSelectAll={toggleSelectAll}
+            onOpen={setOpenedMatch}
+            onDelete={deleteMatches}
+            onExport={exportMatches}
+            onImport={importFile}
+            importErrors={importErrors}
+            importNotice={importNotice}
+          />
+        )}
+      </main>
+
+      {/* Match History Modal: Appears when an archived match is opened */}
+      {openedMatch && (
+        <MatchHistoryModal
+          key={openedMatch.id}
+          show
+          onClose={() => setOpenedMatch(null)}
+          matchHistory={openedMatch.matchHistory}
+          players={openedMatch.players}
+          rules={openedMatch.rules}
+          cards={openedMatch.cards}
+          serviceCorrections={openedMatch.serviceCorrections}
+          matchWinner={openedMatch.matchWinner}
+          outcome={openedMatch.outcome}
+        />
+      )}
+    </div>
+  );
+}
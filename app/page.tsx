@@ -6,6 +6,11 @@ import MatchHistoryModal from "@/components/MatchHistoryModal";
 import HelpModal from "@/components/HelpModal";
 import MatchInterface from "@/components/MatchInterface";
 import SetFinishModal from "@/components/SetFinishModal";
+import MisconductCardModal from "@/components/MisconductCardModal";
+import EndMatchModal from "@/components/EndMatchModal";
+import ServiceCorrectionModal from "@/components/ServiceCorrectionModal";
+import EditScoreModal from "@/components/EditScoreModal";
+import ResumeMatchPrompt from "@/components/ResumeMatchPrompt";
 import { useMatchLogic } from "@/hooks/useMatchLogic";
 
 /**
@@ -20,7 +25,8 @@ import { useMatchLogic } from "@/hooks/useMatchLogic";
  * Its sole responsibilities are:
  * 1. Calling `useMatchLogic` to get the current state and all event handlers.
  * 2. Conditionally rendering either the `StartMatchSection` or the main `MatchInterface`.
- * 3. Rendering the (hidden by default) `SetFinishModal` and `MatchHistoryModal`.
+ * 3. Rendering the (hidden by default) `SetFinishModal` and `MatchHistoryModal`,
+ *    and the `ResumeMatchPrompt` when a saved match is found on load.
  * 4. Passing the correct state and handlers (props) down to these child components.
  *
  * @returns {JSX.Element} The fully composed application UI.
@@ -36,27 +42,69 @@ export default function Page() {
     serverSide,
     currentServer,
     currentReceiver,
-    scoringSystem,
+    rules,
+    matchWinner,
+    outcome,
+    cards,
+    serviceCorrections,
+    matchHistory,
+    leftSide,
+    endChange,
+    serverHand,
+    settingOffer,
+    serviceCourt,
+    isCourtViewFlipped,
+    currentInterval,
     setFinishData,
     time,
     isPaused,
     showMatchHistoryModal,
     showHelpModal,
     showSetFinishModal,
+    showCardModal,
+    showEndMatchModal,
+    showServiceCorrectionModal,
+    showEditScoreModal,
     historyForModal,
     isMatchStarted,
+    isMatchFinished,
+    hasPlayStarted,
+    scoresheetHref,
+    intervalRemaining,
+    stateIssues,
+    savedMatchPreview,
 
     // Handlers and functions
     formatTime,
     handleIncrement,
+    handleLet,
+    handleIssueCard,
+    handleEndMatch,
+    handleCorrectService,
+    handleEditScore,
+    isValidEditedScore,
     handleStartMatch,
     handleUndo,
+    handleRedo,
     handlePause,
     handleResume,
     continueNextSet,
     resetMatchHistory,
+    openMatchSummary,
+    closeMatchSummary,
+    dismissEndChange,
+    chooseSetting,
+    toggleCourtView,
+    fixServeState,
+    endInterval,
+    resumeSavedMatch,
+    discardSavedMatch,
     setShowMatchHistoryModal,
     setShowHelpModal,
+    setShowCardModal,
+    setShowEndMatchModal,
+    setShowServiceCorrectionModal,
+    setShowEditScoreModal,
 
     // Setters for controlled components
     setCurrentServer,
@@ -87,31 +135,64 @@ export default function Page() {
             pointsB={pointsB}
             setsB={setsB}
             handleIncrement={handleIncrement}
+            handleLet={handleLet}
+            setShowCardModal={setShowCardModal}
+            setShowEndMatchModal={setShowEndMatchModal}
+            setShowServiceCorrectionModal={setShowServiceCorrectionModal}
+            setShowEditScoreModal={setShowEditScoreModal}
             isPaused={isPaused}
             serverSide={serverSide}
             handleUndo={handleUndo}
+            handleRedo={handleRedo}
             handlePause={handlePause}
             handleStartMatch={handleStartMatch}
             setShowMatchHistoryModal={setShowMatchHistoryModal}
             setShowHelpModal={setShowHelpModal}
             handleResume={handleResume}
+            isMatchFinished={isMatchFinished}
+            matchWinner={matchWinner}
+            onShowSummary={openMatchSummary}
+            leftSide={leftSide}
+            endChange={endChange}
+            onDismissEndChange={dismissEndChange}
+            serverHand={serverHand}
+            settingOffer={settingOffer}
+            gameTarget={rules.target}
+            serviceCourt={serviceCourt}
+            isCourtViewFlipped={isCourtViewFlipped}
+            onToggleCourtView={toggleCourtView}
+            onChooseSetting={chooseSetting}
+            currentInterval={currentInterval}
+            intervalRemaining={intervalRemaining}
+            onEndInterval={endInterval}
+            stateIssues={stateIssues}
+            onFixServeState={fixServeState}
+            scoresheetHref={scoresheetHref}
           />
         )}
       </div>
 
       {/* --- Modals (Rendered conditionally by their internal state) --- */}
 
-      {/* Set Finish Modal: Appears when a set is won */}
+      {/* Set Finish Modal: Appears when a set is won (or shows the match summary when the match is won) */}
       <SetFinishModal
         show={showSetFinishModal}
         gameData={setFinishData}
         players={players}
-        scoringSystem={scoringSystem}
+        rules={rules}
         currentServer={currentServer}
         onSetCurrentServer={setCurrentServer}
         currentReceiver={currentReceiver}
         onSetCurrentReceiver={setCurrentReceiver}
         onContinue={continueNextSet}
+        matchWinner={matchWinner}
+        outcome={outcome}
+        matchHistory={matchHistory}
+        setsA={setsA}
+        setsB={setsB}
+        onClose={closeMatchSummary}
+        onUndo={handleUndo}
+        scoresheetHref={scoresheetHref}
       />
 
       {/* Match History Modal: Appears when history icon is clicked */}
@@ -120,12 +201,71 @@ export default function Page() {
         onClose={() => setShowMatchHistoryModal(false)}
         matchHistory={historyForModal}
         players={players}
-        scoringSystem={scoringSystem}
+        rules={rules}
+        cards={cards}
+        serviceCorrections={serviceCorrections}
+        matchWinner={matchWinner}
+        outcome={outcome}
         onReset={resetMatchHistory}
       />
 
+      {/* Misconduct Card Modal: Appears when the card button is clicked */}
+      <MisconductCardModal
+        show={showCardModal}
+        players={players}
+        onIssue={handleIssueCard}
+        onClose={() => setShowCardModal(false)}
+      />
+
+      {/* End Match Modal: Appears when the end match button is clicked */}
+      <EndMatchModal
+        show={showEndMatchModal}
+        players={players}
+        hasPlayStarted={hasPlayStarted}
+        onEndMatch={handleEndMatch}
+        onClose={() => setShowEndMatchModal(false)}
+      />
+
+      {/* Service Correction Modal: Appears when the correct service button is clicked */}
+      <ServiceCorrectionModal
+        show={showServiceCorrectionModal}
+        players={players}
+        currentServer={currentServer}
+        currentReceiver={currentReceiver}
+        onCorrect={handleCorrectService}
+        onClose={() => setShowServiceCorrectionModal(false)}
+      />
+
+      {/* Edit Score Modal: Appears when the edit score button is clicked */}
+      <EditScoreModal
+        show={showEditScoreModal}
+        players={players}
+        pointsA={pointsA}
+        pointsB={pointsB}
+        setsA={setsA}
+        setsB={setsB}
+        serverSide={serverSide}
+        isValidScore={isValidEditedScore}
+        onEdit={handleEditScore}
+        onClose={() => setShowEditScoreModal(false)}
+      />
+
       {/* Help Modal: Appears when help icon is clicked */}
       <HelpModal show={showHelpModal} onClose={() => setShowHelpModal(false)} />
+
+      {/* Resume Match Prompt: Appears on load when a saved match is found */}
+      {savedMatchPreview && (
+        <ResumeMatchPrompt
+          players={savedMatchPreview.players}
+          pointsA={savedMatchPreview.pointsA}
+          pointsB={savedMatchPreview.pointsB}
+          setsA={savedMatchPreview.setsA}
+          setsB={savedMatchPreview.setsB}
+          time={formatTime(savedMatchPreview.time)}
+          onResume={resumeSavedMatch}
+          onDiscard={discardSavedMatch}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,143 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { ArchivedMatch } from "@/types/match";
+import Scoresheet from "@/components/Scoresheet";
+import { useArchivedMatch } from "@/hooks/useArchivedMatch";
+import { useLiveMatchRecord } from "@/hooks/useLiveMatchRecord";
+
+/**
+ * Props for the ScoresheetView component.
+ * @internal
+ */
+interface ScoresheetViewProps {
+  match: ArchivedMatch | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Where the back link leads, and its label. */
+  back: { href: string; label: string };
+  /** Shown when there is no match to lay out. */
+  missingText: string;
+  /** True for the match in progress, still being played. */
+  inProgress?: boolean;
+}
+
+/**
+ * @summary The toolbar and the scoresheet, or why it cannot be shown.
+ * @param {ScoresheetViewProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered view.
+ * @internal
+ */
+function ScoresheetView({
+  match,
+  isLoading,
+  error,
+  back,
+  missingText,
+  inProgress,
+}: ScoresheetViewProps) {
+  return (
+    <>
+      {/* Toolbar (not printed) */}
+      <div className="flex justify-between items-center w-full max-w-[281mm] mb-4 font-main print:hidden">
+        <a href={back.href} className="text-blue-600 hover:underline">
+          ← {back.label}
+        </a>
+        <button
+          className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 transition-colors cursor-pointer disabled:bg-gray-400 disabled:cursor-not-allowed"
+          onClick={() => window.print()}
+          disabled={!match}
+        >
+          Print
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-red-700 font-main">{error}</p>
+      ) : isLoading ? (
+        <p className="font-main">Loading…</p>
+      ) : match ? (
+        <Scoresheet match={match} inProgress={inProgress} />
+      ) : (
+        <p className="font-main">{missingText}</p>
+      )}
+    </>
+  );
+}
+
+/**
+ * @summary The scoresheet of an archived match.
+ * @param {{ id: string | null }} props - The match identifier.
+ * @returns {JSX.Element} The rendered view.
+ * @internal
+ */
+function ArchivedScoresheet({ id }: { id: string | null }) {
+  const { match, isLoading, error } = useArchivedMatch(id);
+  return (
+    <ScoresheetView
+      match={match}
+      isLoading={isLoading}
+      error={error}
+      back={{ href: "/archive", label: "Match Archive" }}
+      missingText="This match is not in the archive."
+    />
+  );
+}
+
+/**
+ * @summary The scoresheet of the match in progress, as auto-saved by the live page.
+ * @returns {JSX.Element} The rendered view.
+ * @internal
+ */
+function LiveScoresheet() {
+  const { match, isLoading } = useLiveMatchRecord();
+  return (
+    <ScoresheetView
+      match={match}
+      isLoading={isLoading}
+      error={null}
+      back={{ href: "/", label: "Scoreboard" }}
+      missingText="No match is in progress."
+      inProgress
+    />
+  );
+}
+
+/**
+ * @summary Picks the match from the query: `?live` or `?id=<match id>`.
+ * @returns {JSX.Element} The scoresheet view for that match.
+ * @internal
+ */
+function ScoresheetContent() {
+  const searchParams = useSearchParams();
+  return searchParams.has("live") ? (
+    <LiveScoresheet />
+  ) : (
+    <ArchivedScoresheet id={searchParams.get("id")} />
+  );
+}
+
+/**
+ * @summary
+ * The printable scoresheet page for an archived match.
+ *
+ * @description
+ * Opened from the match archive as `/scoresheet?id=<match id>`, or from the
+ * live scoreboard as `/scoresheet?live` for the match in progress. The page
+ * prints on A4 landscape (set by the `@page` rule below, which only exists
+ * while this page is shown); the toolbar is left out of the print.
+ *
+ * @returns {JSX.Element} The scoresheet UI.
+ */
+export default function ScoresheetPage() {
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-white p-4 print:p-0">
+      <style>{"@page { size: A4 landscape; margin: 8mm; }"}</style>
+      {/* useSearchParams needs a Suspense boundary when the page is prerendered */}
+      <Suspense>
+        <ScoresheetContent />
+      </Suspense>
+    </div>
+  );
+}
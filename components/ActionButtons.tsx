@@ -1,6 +1,7 @@
 "use client";
 
-import { JSX } from "react";
+import { JSX, useEffect } from "react";
+import { ResumeScore, RuleSet } from "@/types/match";
 import IconButton from "./IconButton";
 import NewMatchButton from "./NewMatch";
 
@@ -8,19 +9,26 @@ import NewMatchButton from "./NewMatch";
  * Props interface for the ActionButtons component.
  *
  * @property {() => void} onUndo - Callback function triggered when the Undo button is clicked.
+ * @property {() => void} onRedo - Callback function triggered when the Redo button is clicked.
+ * @property {() => void} onLet - Callback function triggered when the Let button is clicked.
+ * @property {() => void} onCard - Callback function triggered when the Card button is clicked.
  * @property {() => void} onPause - Callback function triggered when the Pause button is clicked.
- * @property {(players: { teamA: string[]; teamB: string[] }, firstServe: "A" | "B", firstServerName: string, opponentServerName: string, scoringSystemParam?: number) => void} onStartMatch
- * Function to start a new match. Includes player names, serve info, and optional scoring system parameter.
+ * @property {(players: { teamA: string[]; teamB: string[] }, firstServe: "A" | "B", firstServerName: string, opponentServerName: string, rulesParam?: RuleSet, resumeFrom?: ResumeScore) => void} onStartMatch
+ * Function to start a new match. Includes player names, serve info, the optional rule set and the optional score to resume from.
  */
 interface ActionButtonsProps {
   onUndo: () => void;
+  onRedo: () => void;
+  onLet: () => void;
+  onCard: () => void;
   onPause: () => void;
   onStartMatch: (
     players: { teamA: string[]; teamB: string[] },
     firstServe: "A" | "B",
     firstServerName: string,
     opponentReceiverName: string,
-    scoringSystemParam?: number
+    rulesParam?: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
 }
 
@@ -29,9 +37,16 @@ interface ActionButtonsProps {
  *
  * Displays a row of control buttons for the scoreboard:
  * - Undo: Reverts the last action.
+ * - Redo: Re-applies the last undone action.
+ * - Let: Records a replayed rally without awarding a point.
+ * - Card: Opens the misconduct card modal.
  * - Pause: Pauses or resumes the match.
  * - New Match: Opens a new match setup modal or action.
  *
+ * Keyboard shortcuts:
+ * - `Ctrl/Cmd + Z`: Undo.
+ * - `Ctrl/Cmd + Shift + Z` or `Ctrl/Cmd + Y`: Redo.
+ *
  * Layout:
  * - Horizontally aligned with responsive spacing.
  * - Centers all elements visually in the middle of the page.
@@ -41,14 +56,52 @@ interface ActionButtonsProps {
  */
 export default function ActionButtons({
   onUndo,
+  onRedo,
+  onLet,
+  onCard,
   onPause,
   onStartMatch,
 }: ActionButtonsProps): JSX.Element {
+  /**
+   * Binds the undo/redo keyboard shortcuts while the buttons are mounted.
+   * Shortcuts are ignored while typing in a form field.
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo, onRedo]);
+
   return (
     <div className="flex flex-row gap-4 md:gap-2 justify-center items-center text-black font-main">
       {/* Undo Button */}
       <IconButton icon="/undo.svg" alt="Undo" onAction={onUndo} />
 
+      {/* Redo Button */}
+      <IconButton icon="/redo.svg" alt="Redo" onAction={onRedo} />
+
+      {/* Let Button */}
+      <TextButton label="LET" alt="Let" onAction={onLet} />
+
+      {/* Misconduct Card Button */}
+      <TextButton label="CARD" alt="Misconduct Card" onAction={onCard} />
+
       {/* Pause Button */}
       <IconButton icon="/pause.svg" alt="Pause" onAction={onPause} />
 
@@ -57,3 +110,27 @@ export default function ActionButtons({
     </div>
   );
 }
+
+/**
+ * A text-labelled control styled like an `IconButton`, for actions without an icon.
+ * @internal
+ */
+function TextButton({
+  label,
+  alt,
+  onAction,
+}: {
+  label: string;
+  alt: string;
+  onAction: () => void;
+}) {
+  return (
+    <button
+      onClick={onAction}
+      aria-label={alt}
+      className="bg-icon flex justify-center items-center rounded md:p-4 mx-1 md:mx-4 w-12 h-12 md:w-18 md:h-18 transition duration-300 cursor-pointer text-sm md:text-xl tracking-wider hover:text-white"
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import Image from "next/image";
+import { EndChangeReason } from "@/types/match";
+
+/**
+ * Props for the ChangeEndsPrompt component.
+ */
+interface ChangeEndsPromptProps {
+  /** Why the teams are changing ends. */
+  reason: EndChangeReason;
+  /** The player names of the teams now on the left and right ends. */
+  leftTeamName: string;
+  rightTeamName: string;
+  /** Callback function triggered once the players have changed ends. */
+  onDismiss: () => void;
+}
+
+/**
+ * @summary
+ * A prompt telling the umpire that the teams must change ends.
+ *
+ * @description
+ * Shown after every game and when the leading side reaches the mid-game
+ * point in the deciding game. The scoreboards have already been swapped by
+ * the time it appears, so it also names the team now on each end.
+ *
+ * @param {ChangeEndsPromptProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered prompt.
+ */
+export default function ChangeEndsPrompt({
+  reason,
+  leftTeamName,
+  rightTeamName,
+  onDismiss,
+}: ChangeEndsPromptProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md text-center space-y-3">
+        <div className="flex items-center justify-center gap-2">
+          <Image
+            src="/left-right.svg"
+            width={36}
+            height={36}
+            alt="Change Ends"
+          />
+          <h3 className="text-xl sm:text-3xl font-bold">Change Ends</h3>
+        </div>
+        <p className="text-gray-600 sm:text-lg">
+          {reason === "MID_GAME"
+            ? "The leading side has reached the mid-game point of the deciding game."
+            : "A new game is starting."}
+        </p>
+        <p className="sm:text-lg">
+          Left: <span className="font-bold">{leftTeamName}</span>
+          <br />
+          Right: <span className="font-bold">{rightTeamName}</span>
+        </p>
+        <button
+          className="mt-2 bg-blue-600 text-white px-4 py-2 rounded w-full hover:bg-blue-700 transition-colors sm:text-lg cursor-pointer"
+          onClick={onDismiss}
+        >
+          Ends Changed
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { EditedScore, Players } from "@/types/match";
+
+/**
+ * Props for the EditScoreModal component.
+ */
+interface EditScoreModalProps {
+  /** Controls the visibility of the modal. If false, the component returns null. */
+  show: boolean;
+  /** The player rosters for both teams. */
+  players: Players;
+  /** The score currently shown, used as the initial values. */
+  pointsA: number;
+  pointsB: number;
+  setsA: number;
+  setsB: number;
+  /** The side currently serving, used as the initial selection. */
+  serverSide: "A" | "B" | null;
+  /**
+   * Returns whether the score would leave both the game and the match open.
+   * The reducer ignores any other score, so the button is disabled instead.
+   */
+  isValidScore: (score: EditedScore) => boolean;
+  /** Callback function triggered when the edit is confirmed. */
+  onEdit: (score: EditedScore) => void;
+  /** Callback function triggered when the user closes the modal. */
+  onClose: () => void;
+}
+
+/**
+ * @summary
+ * A modal for setting the score by hand, e.g. after the scoreboard fell
+ * behind the real match.
+ *
+ * @description
+ * The umpire enters the points and games for each side and picks the side
+ * that serves next. The reducer then works out the server, the receiver, the
+ * court positions and the serve rotation for the new score. The state before
+ * the edit is kept in the point history, and the edit can be undone.
+ *
+ * @param {EditScoreModalProps} props - The props for the component.
+ * @returns {JSX.Element | null} The rendered modal or `null` if `show` is false.
+ */
+export default function EditScoreModal({
+  show,
+  players,
+  pointsA,
+  pointsB,
+  setsA,
+  setsB,
+  serverSide,
+  isValidScore,
+  onEdit,
+  onClose,
+}: EditScoreModalProps) {
+  // Only the fields the umpire has changed; the rest follow the live score
+  const [edits, setEdits] = useState<Partial<EditedScore>>({});
+
+  if (!show) return null;
+
+  const score: EditedScore = {
+    pointsA,
+    pointsB,
+    setsA,
+    setsB,
+    servingSide: serverSide ?? "A",
+    ...edits,
+  };
+  const isValid = isValidScore(score);
+
+  const teamAName = players.teamA.join(" & ");
+  const teamBName = players.teamB.join(" & ");
+
+  const handleNumber = (
+    field: "pointsA" | "pointsB" | "setsA" | "setsB",
+    value: string
+  ) => {
+    const parsed = Math.max(0, Math.floor(Number(value) || 0));
+    setEdits((prev) => ({ ...prev, [field]: parsed }));
+  };
+
+  const handleClose = () => {
+    setEdits({});
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    onEdit(score);
+    setEdits({});
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-50 p-4">
+      <div className="relative bg-white rounded-xl p-6 w-full max-w-md space-y-4">
+        {/* Close Button */}
+        <button
+          onClick={handleClose}
+          className="absolute top-2 right-2 rounded-lg hover:bg-gray-200 cursor-pointer p-1"
+        >
+          <Image src={"/close.svg"} width={30} height={30} alt="Close Button" />
+        </button>
+
+        <h3 className="text-xl sm:text-3xl font-bold text-center">
+          Edit Score
+        </h3>
+        <p className="text-gray-600 text-sm sm:text-base text-center">
+          The server, receiver and court positions are worked out from the new
+          score.
+        </p>
+
+        {/* Score inputs */}
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <span />
+          <span className="font-semibold text-center">Points</span>
+          <span className="font-semibold text-center">Games</span>
+
+          <span className="font-semibold truncate">{teamAName}</span>
+          <input
+            type="number"
+            min={0}
+            className="border p-2 rounded w-full text-center"
+            value={score.pointsA}
+            onChange={(e) => handleNumber("pointsA", e.target.value)}
+          />
+          <input
+            type="number"
+            min={0}
+            className="border p-2 rounded w-full text-center"
+            value={score.setsA}
+            onChange={(e) => handleNumber("setsA", e.target.value)}
+          />
+
+          <span className="font-semibold truncate">{teamBName}</span>
+          <input
+            type="number"
+            min={0}
+            className="border p-2 rounded w-full text-center"
+            value={score.pointsB}
+            onChange={(e) => handleNumber("pointsB", e.target.value)}
+          />
+          <input
+            type="number"
+            min={0}
+            className="border p-2 rounded w-full text-center"
+            value={score.setsB}
+            onChange={(e) => handleNumber("setsB", e.target.value)}
+          />
+        </div>
+
+        {/* Serving side selection */}
+        <div>
+          <label className="block mb-1 font-semibold">Serving:</label>
+          <select
+            className="border p-2 rounded w-full"
+            value={score.servingSide}
+            onChange={(e) =>
+              setEdits((prev) => ({
+                ...prev,
+                servingSide: e.target.value as "A" | "B",
+              }))
+            }
+          >
+            <option value="A">{teamAName}</option>
+            <option value="B">{teamBName}</option>
+          </select>
+        </div>
+
+        {!isValid && (
+          <p className="text-red-600 text-sm text-center">
+            This score would end the game or the match.
+          </p>
+        )}
+
+        <button
+          className="bg-blue-600 text-white px-4 py-2 rounded w-full hover:bg-blue-700 transition-colors sm:text-lg cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={handleConfirm}
+          disabled={!isValid}
+        >
+          Apply Score
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { MatchOutcome, Players } from "@/types/match";
+
+/** The ways a match can be ended early. */
+type EarlyOutcome = Exclude<MatchOutcome, "COMPLETED">;
+
+/**
+ * Props for the EndMatchModal component.
+ */
+interface EndMatchModalProps {
+  /** Controls the visibility of the modal. If false, the component returns null. */
+  show: boolean;
+  /** The player rosters for both teams. */
+  players: Players;
+  /** True once the first rally has been played (a walkover is no longer possible). */
+  hasPlayStarted: boolean;
+  /** Callback function triggered when the match is ended. `side` is the side that loses. */
+  onEndMatch: (outcome: EarlyOutcome, side: "A" | "B") => void;
+  /** Callback function triggered when the user closes the modal. */
+  onClose: () => void;
+}
+
+/**
+ * The outcome options (only used in this component).
+ * @internal
+ */
+const OUTCOME_OPTIONS: {
+  outcome: EarlyOutcome;
+  label: string;
+  description: string;
+}[] = [
+  {
+    outcome: "RETIRED",
+    label: "Retirement",
+    description: "The side cannot continue. The score stands.",
+  },
+  {
+    outcome: "WALKOVER",
+    label: "Walkover",
+    description: "The side did not play. Only before the first rally.",
+  },
+  {
+    outcome: "DISQUALIFIED",
+    label: "Disqualification",
+    description: "The side is disqualified from the match.",
+  },
+];
+
+/**
+ * @summary
+ * A modal for ending a match before it has been played out.
+ *
+ * @description
+ * The umpire selects the side that retires, gives a walkover or is
+ * disqualified, and then the outcome. The opponent is awarded the match.
+ * The walkover option is disabled once play has started.
+ *
+ * @param {EndMatchModalProps} props - The props for the component.
+ * @returns {JSX.Element | null} The rendered modal or `null` if `show` is false.
+ */
+export default function EndMatchModal({
+  show,
+  players,
+  hasPlayStarted,
+  onEndMatch,
+  onClose,
+}: EndMatchModalProps) {
+  const [side, setSide] = useState<"A" | "B">("A");
+
+  if (!show) return null;
+
+  const teamAName = players.teamA.join(" & ");
+  const teamBName = players.teamB.join(" & ");
+
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-50 p-4">
+      <div className="relative bg-white rounded-xl p-6 w-full max-w-md space-y-4">
+        {/* Close Button */}
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 rounded-lg hover:bg-gray-200 cursor-pointer p-1"
+        >
+          <Image src={"/close.svg"} width={30} height={30} alt="Close Button" />
+        </button>
+
+        <h3 className="text-xl sm:text-3xl font-bold text-center">End Match</h3>
+
+        {/* Side selection */}
+        <div>
+          <label className="block mb-1 font-semibold">Side:</label>
+          <select
+            className="border p-2 rounded w-full"
+            value={side}
+            onChange={(e) => setSide(e.target.value as "A" | "B")}
+          >
+            <option value="A">{teamAName}</option>
+            <option value="B">{teamBName}</option>
+          </select>
+        </div>
+
+        {/* Outcome buttons */}
+        <div className="space-y-2">
+          {OUTCOME_OPTIONS.map((option) => (
+            <button
+              key={option.outcome}
+              className="w-full px-4 py-2 rounded text-left bg-gray-200 hover:bg-gray-300 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => onEndMatch(option.outcome, side)}
+              disabled={option.outcome === "WALKOVER" && hasPlayStarted}
+            >
+              <span className="block font-bold sm:text-lg">{option.label}</span>
+              <span className="block text-sm text-gray-600">
+                {option.description}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
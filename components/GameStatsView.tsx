@@ -1,6 +1,8 @@
 "use client";
 
+import { IntervalRecord, RuleSet } from "@/types/match";
 import { calculateGameStats, GameStats } from "@/utils/statsUtils";
+import { getHandicap, hasHandicap } from "@/utils/ruleSets";
 import PointGraph from "./PointGraph";
 
 /**
@@ -17,6 +19,8 @@ type PointSnapshot = {
   currentReceiver: string | null;
   nextServer: string | null;
   serveIndex: number;
+  lets: number;
+  scoreEdits: number;
 };
 
 /**
@@ -30,6 +34,19 @@ type GameSnapshot = {
   winnerSide: "A" | "B" | null;
   duration: number;
   pointHistory: PointSnapshot[];
+  intervals: IntervalRecord[];
+  incomplete: boolean;
+  resumed: boolean;
+};
+
+/**
+ * Formats an interval log entry, e.g. "Mid-game: 58s of 60s".
+ * @internal
+ */
+const formatInterval = (interval: IntervalRecord) => {
+  const label = interval.kind === "MID_GAME" ? "Mid-game" : "After game";
+  const taken = (interval.endTime ?? interval.startTime) - interval.startTime;
+  return `${label}: ${taken}s of ${interval.duration}s`;
 };
 
 /**
@@ -38,7 +55,7 @@ type GameSnapshot = {
 interface GameStatsViewProps {
   game: GameSnapshot;
   players: { teamA: string[]; teamB: string[] };
-  scoringSystem: number;
+  rules: RuleSet;
 }
 
 /**
@@ -48,8 +65,8 @@ interface GameStatsViewProps {
  *
  * @description
  * This component calculates and renders a statistics table (Total Points,
- * Consecutive Streaks, Game Points) and a `PointGraph` for a given game
- * snapshot. It is designed to be used within other modals, such as
+ * Consecutive Streaks, Game Points, Lets, and the handicap if one is in play)
+ * and a `PointGraph` for a given game snapshot. It is designed to be used within other modals, such as
  * `MatchHistoryModal` and `SetFinishModal`.
  *
  * @param {GameStatsViewProps} props - The properties required to render the game stats.
@@ -58,10 +75,10 @@ interface GameStatsViewProps {
 export default function GameStatsView({
   game,
   players,
-  scoringSystem,
+  rules,
 }: GameStatsViewProps) {
   // Calculate stats for this specific game
-  const stats: GameStats = calculateGameStats(game, scoringSystem);
+  const stats: GameStats = calculateGameStats(game, rules);
   const teamAName = players.teamA.join(" & ");
   const teamBName = players.teamB.join(" & ");
 
@@ -70,7 +87,11 @@ export default function GameStatsView({
       {/* 1. Title */}
       <h3 className="text-xl sm:text-2xl font-bold text-center">
         Game {game.gameNumber} Stats{" "}
-        {game.winnerSide === null
+        {game.incomplete
+          ? `(Not Completed, ${game.pointsA} - ${game.pointsB})`
+          : game.resumed
+          ? `(Entered, ${game.pointsA} - ${game.pointsB})`
+          : game.winnerSide === null
           ? "(In Progress)"
           : `(${game.pointsA} - ${game.pointsB})`}
       </h3>
@@ -81,6 +102,19 @@ export default function GameStatsView({
         <div className="font-bold text-center text-green">{teamAName}</div>
         <div className="font-bold text-center text-yellow">{teamBName}</div>
 
+        {/* Handicap (only in handicap play) */}
+        {hasHandicap(rules) && (
+          <>
+            <div className="text-gray-600">Handicap (Start)</div>
+            <div className="text-center text-xl font-semibold">
+              +{getHandicap(rules).pointsA}
+            </div>
+            <div className="text-center text-xl font-semibold">
+              +{getHandicap(rules).pointsB}
+            </div>
+          </>
+        )}
+
         <div className="text-gray-600">Total Points Won</div>
         <div className="text-center text-xl font-semibold">
           {stats.totalPointsWonA}
@@ -107,10 +141,30 @@ export default function GameStatsView({
 
         <div className="text-gray-600 col-span-2">Total Points Played</div>
         <div className="text-center text-xl font-semibold">
-          {game.winnerSide === null && stats.totalPointsPlayed > 0
-            ? `${stats.totalPointsPlayed}` // Show current count
-            : `${stats.totalPointsPlayed - 1}`}
+          {stats.totalPointsPlayed}
         </div>
+
+        {/* Lets (only when lets were played) */}
+        {stats.lets > 0 && (
+          <>
+            <div className="text-gray-600 col-span-2">Lets</div>
+            <div className="text-center text-xl font-semibold">
+              {stats.lets}
+            </div>
+          </>
+        )}
+
+        {/* Interval log (only when intervals were taken) */}
+        {game.intervals.length > 0 && (
+          <>
+            <div className="text-gray-600">Intervals</div>
+            <div className="col-span-2 text-center">
+              {game.intervals.map((interval) => (
+                <p key={interval.startTime}>{formatInterval(interval)}</p>
+              ))}
+            </div>
+          </>
+        )}
       </div>
 
       {/* 3. Point Flow Graph */}
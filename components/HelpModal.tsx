@@ -97,7 +97,36 @@ export default function HelpModal({
             <Image src="/undo.svg" width={24} height={24} alt="Undo Icon" />
             <span>
               <strong>Undo:</strong> Revert the last point if you made a
-              mistake.
+              mistake (Ctrl+Z). Undoing the game-winning point reopens the
+              finished game.
+            </span>
+          </p>
+
+          <p className="flex items-start gap-2">
+            <Image src="/redo.svg" width={24} height={24} alt="Redo Icon" />
+            <span>
+              <strong>Redo:</strong> Re-apply a point you undid by accident
+              (Ctrl+Shift+Z or Ctrl+Y).
+            </span>
+          </p>
+
+          <p className="flex items-start gap-2">
+            <span className="w-6 shrink-0 text-center text-xs font-bold leading-6">
+              LET
+            </span>
+            <span>
+              <strong>Let:</strong> Record a replayed rally (e.g. the receiver
+              was not ready). No point is awarded and the server stays the same.
+            </span>
+          </p>
+
+          <p className="flex items-start gap-2">
+            <span className="w-6 shrink-0 text-center text-xs font-bold leading-6">
+              CARD
+            </span>
+            <span>
+              <strong>Card:</strong> Issue a yellow (warning), red (fault: the
+              opponent wins the rally) or black (disqualification) card.
             </span>
           </p>
 
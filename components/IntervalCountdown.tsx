@@ -0,0 +1,70 @@
+"use client";
+
+import Image from "next/image";
+import { IntervalKind } from "@/types/match";
+import { INTERVAL_WARNING_SECONDS } from "@/utils/intervals";
+
+/**
+ * Props for the IntervalCountdown component.
+ */
+interface IntervalCountdownProps {
+  /** Whether this is the mid-game or between-games interval. */
+  kind: IntervalKind;
+  /** Seconds left in the interval. */
+  remaining: number;
+  /** Callback function triggered when play resumes before the countdown ends. */
+  onResume: () => void;
+}
+
+/**
+ * @summary
+ * A full-screen countdown overlay for the mandatory intervals.
+ *
+ * @description
+ * Counts down the 60-second mid-game or 120-second between-games interval.
+ * When 20 seconds are left it shows the umpire's "20 seconds" call, so the
+ * umpire can announce it to the players. The interval ends automatically at
+ * zero, or earlier via the "Resume Play" button.
+ *
+ * @param {IntervalCountdownProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered overlay.
+ */
+export default function IntervalCountdown({
+  kind,
+  remaining,
+  onResume,
+}: IntervalCountdownProps) {
+  const mins = String(Math.floor(remaining / 60)).padStart(2, "0");
+  const secs = String(remaining % 60).padStart(2, "0");
+  const isWarning = remaining <= INTERVAL_WARNING_SECONDS;
+
+  return (
+    <div className="fixed inset-0 flex flex-col items-center justify-center gap-4 bg-linear-to-br from-primary via-hover to-secondary z-40 opacity-95 font-main text-white">
+      <Image
+        src="/logo.svg"
+        width={80}
+        height={80}
+        alt="Interval"
+        className="drop-shadow-icon sm:w-28 sm:h-28"
+      />
+      <p className="text-xl sm:text-3xl tracking-widest">
+        {kind === "MID_GAME" ? "MID-GAME INTERVAL" : "INTERVAL BETWEEN GAMES"}
+      </p>
+      <p className="text-8xl md:text-scoreboard font-bold tracking-wider select-none">
+        {mins}:{secs}
+      </p>
+      {/* The umpire's "20 seconds" call */}
+      {isWarning && (
+        <p className="text-2xl sm:text-4xl text-yellow font-bold tracking-widest animate-pulse">
+          20 SECONDS!
+        </p>
+      )}
+      <button
+        onClick={onResume}
+        className="mt-4 bg-white text-black px-6 py-2 rounded-md hover:bg-gray-200 cursor-pointer sm:text-2xl"
+      >
+        Resume Play
+      </button>
+    </div>
+  );
+}
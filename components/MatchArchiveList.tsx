@@ -0,0 +1,269 @@
+"use client";
+
+import { ArchivedMatch, TeamFormat } from "@/types/match";
+import { ArchiveFilters } from "@/utils/matchArchive";
+import { getTeamFormat } from "@/utils/teamFormat";
+import { describeOutcome } from "@/utils/matchOutcome";
+
+/**
+ * Props for the MatchArchiveList component.
+ */
+interface MatchArchiveListProps {
+  /** The archived matches that pass the filters, most recent first. */
+  matches: ArchivedMatch[];
+  /** The number of archived matches, before filtering. */
+  totalCount: number;
+  /** The rule sets used in the archive, for the format filter. */
+  ruleSetOptions: { id: string; name: string }[];
+  filters: ArchiveFilters;
+  selectedIds: string[];
+  onFilterChange: (field: keyof ArchiveFilters, value: string) => void;
+  onClearFilters: () => void;
+  onToggleSelected: (id: string) => void;
+  onToggleSelectAll: () => void;
+  /** Callback function triggered to open a match in the history views. */
+  onOpen: (match: ArchivedMatch) => void;
+  /** Callback function triggered (after confirmation) to delete matches. */
+  onDelete: (ids: string[]) => void;
+  /** Callback function triggered to export matches (the whole archive if no ids). */
+  onExport: (ids?: string[]) => void;
+  /** Callback function triggered with a match file to import. */
+  onImport: (file: File) => void;
+  /** Why the last imported file was rejected. */
+  importErrors: string[];
+  /** How many matches the last import added. */
+  importNotice: string | null;
+}
+
+/**
+ * The label of each team format (only used in this component)
+ */
+const TEAM_FORMAT_LABELS: Record<TeamFormat, string> = {
+  SINGLES: "Singles",
+  DOUBLES: "Doubles",
+  TRIPLES: "Triples",
+};
+
+/**
+ * @summary
+ * The list of archived matches, with filters, import, export and delete.
+ *
+ * @description
+ * Each match shows its date, players, games score, format and result. The
+ * list can be filtered by player name, date range, team format and rule set.
+ * Matches are deleted one at a time or as a selection, after confirmation.
+ * The selection or the whole archive is exported as a match file, and match
+ * files (e.g., from another phone) are imported into the archive. Each match
+ * also links to its printable scoresheet.
+ *
+ * @param {MatchArchiveListProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered filters and list.
+ */
+export default function MatchArchiveList({
+  matches,
+  totalCount,
+  ruleSetOptions,
+  filters,
+  selectedIds,
+  onFilterChange,
+  onClearFilters,
+  onToggleSelected,
+  onToggleSelectAll,
+  onOpen,
+  onDelete,
+  onExport,
+  onImport,
+  importErrors,
+  importNotice,
+}: MatchArchiveListProps) {
+  const allShownSelected =
+    matches.length > 0 && matches.every((m) => selectedIds.includes(m.id));
+
+  const confirmDelete = (ids: string[]) => {
+    const what = ids.length === 1 ? "this match" : `${ids.length} matches`;
+    if (window.confirm(`Delete ${what} from the archive?`)) onDelete(ids);
+  };
+
+  return (
+    <div className="w-full max-w-4xl bg-white rounded-xl p-4 sm:p-6 font-main text-black space-y-4">
+      {/* Filters */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        <input
+          type="search"
+          placeholder="Player name"
+          className="border p-2 rounded col-span-2 sm:col-span-1"
+          value={filters.player}
+          onChange={(e) => onFilterChange("player", e.target.value)}
+        />
+        <input
+          type="date"
+          aria-label="From"
+          className="border p-2 rounded"
+          value={filters.from}
+          onChange={(e) => onFilterChange("from", e.target.value)}
+        />
+        <input
+          type="date"
+          aria-label="To"
+          className="border p-2 rounded"
+          value={filters.to}
+          onChange={(e) => onFilterChange("to", e.target.value)}
+        />
+        <select
+          className="border p-2 rounded"
+          value={filters.teamFormat}
+          onChange={(e) => onFilterChange("teamFormat", e.target.value)}
+        >
+          <option value="ALL">All Types</option>
+          {Object.entries(TEAM_FORMAT_LABELS).map(([format, label]) => (
+            <option key={format} value={format}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="border p-2 rounded"
+          value={filters.rulesId}
+          onChange={(e) => onFilterChange("rulesId", e.target.value)}
+        >
+          <option value="ALL">All Formats</option>
+          {ruleSetOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Selection toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm sm:text-base">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allShownSelected}
+            onChange={onToggleSelectAll}
+            disabled={matches.length === 0}
+          />
+          {matches.length} of {totalCount} matches
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button
+            className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300 transition-colors cursor-pointer"
+            onClick={onClearFilters}
+          >
+            Clear Filters
+          </button>
+          <label className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300 transition-colors cursor-pointer">
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                // Allows the same file to be chosen again
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <button
+            className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 transition-colors cursor-pointer disabled:bg-gray-400 disabled:cursor-not-allowed"
+            onClick={() =>
+              onExport(selectedIds.length > 0 ? selectedIds : undefined)
+            }
+            disabled={totalCount === 0}
+          >
+            {selectedIds.length > 0
+              ? `Export Selected (${selectedIds.length})`
+              : "Export All"}
+          </button>
+          <button
+            className="bg-red-500 text-white px-3 py-1 rounded hover:bg-red-600 transition-colors cursor-pointer disabled:bg-gray-400 disabled:cursor-not-allowed"
+            onClick={() => confirmDelete(selectedIds)}
+            disabled={selectedIds.length === 0}
+          >
+            Delete Selected ({selectedIds.length})
+          </button>
+        </div>
+      </div>
+
+      {/* Import result */}
+      {importNotice && (
+        <p className="text-green-700 text-sm sm:text-base">{importNotice}</p>
+      )}
+      {importErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-300 rounded p-3 text-sm">
+          <p className="font-bold text-red-700">
+            The file could not be imported:
+          </p>
+          <ul className="list-disc pl-5 text-red-700 break-words">
+            {importErrors.map((error, idx) => (
+              <li key={idx}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Match list */}
+      {matches.length === 0 ? (
+        <p className="text-center text-gray-600 sm:text-lg py-8">
+          {totalCount === 0
+            ? "No archived matches yet. Finished matches are saved here."
+            : "No matches match these filters."}
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {matches.map((match) => {
+            const teamAName = match.players.teamA.join(" & ");
+            const teamBName = match.players.teamB.join(" & ");
+            const result = !match.finished
+              ? "Abandoned"
+              : describeOutcome(
+                  match.outcome,
+                  match.matchWinner === "A" ? teamBName : teamAName
+                ) ??
+                `${match.matchWinner === "A" ? teamAName : teamBName} won`;
+
+            return (
+              <li key={match.id} className="flex items-center gap-3 py-3">
+                <input
+                  type="checkbox"
+                  aria-label="Select match"
+                  checked={selectedIds.includes(match.id)}
+                  onChange={() => onToggleSelected(match.id)}
+                />
+                <button
+                  className="flex-1 text-left cursor-pointer hover:text-blue-600 min-w-0"
+                  onClick={() => onOpen(match)}
+                >
+                  <span className="block font-bold truncate sm:text-lg">
+                    {teamAName} vs {teamBName}
+                  </span>
+                  <span className="block text-gray-600 text-sm">
+                    {new Date(match.archivedAt).toLocaleString()} ·{" "}
+                    {TEAM_FORMAT_LABELS[getTeamFormat(match.players)]} ·{" "}
+                    {match.rules.name} · {match.setsA}-{match.setsB} ·{" "}
+                    {result}
+                  </span>
+                </button>
+                <a
+                  href={`/scoresheet?id=${encodeURIComponent(match.id)}`}
+                  className="text-blue-600 hover:bg-blue-50 px-2 py-1 rounded text-sm"
+                >
+                  Scoresheet
+                </a>
+                <button
+                  className="text-red-600 hover:bg-red-50 px-2 py-1 rounded cursor-pointer text-sm"
+                  onClick={() => confirmDelete([match.id])}
+                >
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,20 @@
 
 import { useState } from "react";
 import Image from "next/image";
+import {
+  CardColor,
+  CardRecord,
+  IntervalRecord,
+  MatchOutcome,
+  RuleSet,
+  ServiceCorrection,
+} from "@/types/match";
 import { calculateMatchStats, MatchStats } from "@/utils/statsUtils";
+import { describeOutcome } from "@/utils/matchOutcome";
+import { getHandicap, hasHandicap } from "@/utils/ruleSets";
+import { createRallyCsv, createTotalsCsv } from "@/utils/csvExport";
+import { toDateInputValue } from "@/utils/matchArchive";
+import { downloadFile } from "@/utils/download";
 import GameStatsView from "./GameStatsView";
 
 /**
@@ -19,6 +32,8 @@ type PointSnapshot = {
   currentReceiver: string | null;
   nextServer: string | null;
   serveIndex: number;
+  lets: number;
+  scoreEdits: number;
 };
 
 /**
@@ -32,6 +47,9 @@ type GameSnapshot = {
   winnerSide: "A" | "B" | null;
   duration: number;
   pointHistory: PointSnapshot[];
+  intervals: IntervalRecord[];
+  incomplete: boolean;
+  resumed: boolean;
 };
 
 /**
@@ -42,8 +60,13 @@ interface MatchHistoryModalProps {
   onClose: () => void;
   matchHistory: GameSnapshot[];
   players: { teamA: string[]; teamB: string[] };
-  scoringSystem: number;
-  onReset: () => void;
+  rules: RuleSet;
+  cards: CardRecord[];
+  serviceCorrections: ServiceCorrection[];
+  matchWinner: "A" | "B" | null;
+  outcome: MatchOutcome | null;
+  /** Clears the live match history. Omitted for an archived match (no reset button). */
+  onReset?: () => void;
 }
 
 /**
@@ -55,21 +78,38 @@ const formatDuration = (seconds: number) => {
   return `${hrs}:${mins}`;
 };
 
+/**
+ * The label and swatch colour for each misconduct card (only used in this component)
+ */
+const CARD_STYLES: Record<CardColor, { label: string; swatch: string }> = {
+  YELLOW: { label: "Warning", swatch: "bg-yellow-300" },
+  RED: { label: "Fault", swatch: "bg-red-600" },
+  BLACK: { label: "Disqualified", swatch: "bg-black" },
+};
+
 /**
  * MatchHistoryModal Component
  * ---
- * A modal that displays detailed match statistics.
+ * A modal that displays detailed match statistics. The match can be
+ * downloaded as a CSV for spreadsheet analysis: one row per rally, or only
+ * the per-game and per-match totals.
  */
 export default function MatchHistoryModal({
   show,
   onClose,
   matchHistory,
   players,
-  scoringSystem,
+  rules,
+  cards,
+  serviceCorrections,
+  matchWinner,
+  outcome,
   onReset,
 }: MatchHistoryModalProps) {
   // State to manage the currently active tab. Defaults to "matchStats".
   const [activeTab, setActiveTab] = useState("matchStats");
+  // Whether the CSV export holds only the totals instead of every rally
+  const [totalsOnly, setTotalsOnly] = useState(false);
 
   if (!show) return null;
 
@@ -77,7 +117,7 @@ export default function MatchHistoryModal({
   let matchStats: MatchStats | null = null;
   let totalDuration = 0; // <--- (BARU) Variabel untuk total durasi
   if (activeTab === "matchStats") {
-    matchStats = calculateMatchStats(matchHistory, scoringSystem);
+    matchStats = calculateMatchStats(matchHistory, rules);
     // <--- (BARU) Hitung total durasi ---
     totalDuration = matchHistory.reduce((acc, game) => acc + game.duration, 0);
     // ---
@@ -93,6 +133,21 @@ export default function MatchHistoryModal({
 
   const teamAName = players.teamA.join(" & ");
   const teamBName = players.teamB.join(" & ");
+  const outcomeText = describeOutcome(
+    outcome,
+    matchWinner === "A" ? teamBName : teamAName
+  );
+
+  const handleExportCsv = () => {
+    const kind = totalsOnly ? "totals" : "rallies";
+    downloadFile(
+      `badminton-${kind}-${toDateInputValue(Date.now())}.csv`,
+      totalsOnly
+        ? createTotalsCsv(matchHistory, players, rules)
+        : createRallyCsv(matchHistory, players),
+      "text/csv"
+    );
+  };
 
   return (
     <div className="fixed inset-0 font-main text-black bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -118,7 +173,9 @@ export default function MatchHistoryModal({
 
         {/* Modal Content */}
         {matchHistory.length === 0 ? (
-          <p className="sm:text-xl text-center">No match history available.</p>
+          <p className="sm:text-xl text-center">
+            {outcomeText ?? "No match history available."}
+          </p>
         ) : (
           <div className="flex flex-col overflow-y-auto">
             {/* Tab Navigation */}
@@ -132,7 +189,13 @@ export default function MatchHistoryModal({
                 <TabButton
                   key={game.gameNumber}
                   label={`Game ${game.gameNumber}${
-                    game.winnerSide === null ? " (In)" : ""
+                    game.incomplete
+                      ? " (Unfinished)"
+                      : game.resumed
+                      ? " (Entered)"
+                      : game.winnerSide === null
+                      ? " (In)"
+                      : ""
                   }`}
                   isActive={activeTab === `game-${game.gameNumber}`}
                   onClick={() => setActiveTab(`game-${game.gameNumber}`)}
@@ -148,6 +211,12 @@ export default function MatchHistoryModal({
                   <h3 className="text-xl sm:text-2xl font-bold text-center">
                     Overall Match Stats
                   </h3>
+                  {/* Result of a match that was not played out */}
+                  {outcomeText && (
+                    <p className="text-center text-red-600 font-semibold sm:text-lg">
+                      {outcomeText}
+                    </p>
+                  )}
                   <div className="grid grid-cols-3 gap-x-4 gap-y-2 sm:text-lg">
                     <div className="font-bold text-gray-600">Statistic</div>
                     <div className="font-bold text-center text-green">
@@ -157,6 +226,21 @@ export default function MatchHistoryModal({
                       {teamBName}
                     </div>
 
+                    {/* Handicap (only in handicap play) */}
+                    {hasHandicap(rules) && (
+                      <>
+                        <div className="text-gray-600">
+                          Handicap (Each Game)
+                        </div>
+                        <div className="text-center text-xl font-semibold">
+                          +{getHandicap(rules).pointsA}
+                        </div>
+                        <div className="text-center text-xl font-semibold">
+                          +{getHandicap(rules).pointsB}
+                        </div>
+                      </>
+                    )}
+
                     <div className="text-gray-600">Total Points Won</div>
                     <div className="text-center text-xl font-semibold">
                       {matchStats.totalPointsWonA}
@@ -185,12 +269,22 @@ export default function MatchHistoryModal({
                       Total Points Played
                     </div>
                     <div className="text-center text-xl font-semibold">
-                      {matchStats.totalPointsPlayed - 1}
+                      {matchStats.totalPointsPlayed}
                     </div>
                     <div className="text-center text-xl font-semibold">
-                      {matchStats.totalPointsPlayed - 1}
+                      {matchStats.totalPointsPlayed}
                     </div>
 
+                    {/* Lets (only when lets were played) */}
+                    {matchStats.lets > 0 && (
+                      <>
+                        <div className="text-gray-600 col-span-2">Lets</div>
+                        <div className="text-center text-xl font-semibold">
+                          {matchStats.lets}
+                        </div>
+                      </>
+                    )}
+
                     <div className="text-gray-600 col-span-2">
                       Total Duration
                     </div>
@@ -198,6 +292,58 @@ export default function MatchHistoryModal({
                       {formatDuration(totalDuration)}
                     </div>
                   </div>
+
+                  {/* Misconduct Cards (only when cards were issued) */}
+                  {cards.length > 0 && (
+                    <div className="pt-4 border-t">
+                      <h4 className="font-bold text-lg mb-2">
+                        Misconduct Cards
+                      </h4>
+                      <ul className="space-y-1 sm:text-lg">
+                        {cards.map((card, idx) => (
+                          <li key={idx} className="flex items-center gap-2">
+                            <span
+                              className={`inline-block w-3 h-4 rounded-sm ${
+                                CARD_STYLES[card.color].swatch
+                              }`}
+                            />
+                            <span className="font-semibold">{card.player}</span>
+                            <span className="text-gray-600">
+                              {CARD_STYLES[card.color].label} — Game{" "}
+                              {card.gameNumber} ({card.pointsA} -{" "}
+                              {card.pointsB})
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Service Corrections (only when corrections were made) */}
+                  {serviceCorrections.length > 0 && (
+                    <div className="pt-4 border-t">
+                      <h4 className="font-bold text-lg mb-2">
+                        Service Corrections
+                      </h4>
+                      <ul className="space-y-1 sm:text-lg">
+                        {serviceCorrections.map((correction, idx) => (
+                          <li key={idx} className="text-gray-600">
+                            Game {correction.gameNumber} ({correction.pointsA}{" "}
+                            - {correction.pointsB}):{" "}
+                            <span className="font-semibold text-black">
+                              {correction.server}
+                            </span>{" "}
+                            serves to{" "}
+                            <span className="font-semibold text-black">
+                              {correction.receiver}
+                            </span>{" "}
+                            (was {correction.previousServer ?? "—"} to{" "}
+                            {correction.previousReceiver ?? "—"})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -206,28 +352,45 @@ export default function MatchHistoryModal({
                 <GameStatsView
                   game={activeGame}
                   players={players}
-                  scoringSystem={scoringSystem}
+                  rules={rules}
                 />
               )}
             </div>
           </div>
         )}
 
-        {/* Modal Footer (Reset Button) */}
-        <div className="mt-4 flex justify-end sm:text-xl border-t pt-4">
+        {/* Modal Footer (CSV Export and Reset Buttons) */}
+        <div className="mt-4 flex flex-wrap justify-end items-center gap-2 sm:gap-4 sm:text-xl border-t pt-4">
+          <label className="flex items-center gap-2 cursor-pointer text-base">
+            <input
+              type="checkbox"
+              checked={totalsOnly}
+              onChange={(e) => setTotalsOnly(e.target.checked)}
+            />
+            Totals only
+          </label>
           <button
-            className="bg-red-500 text-white px-3 py-1 rounded cursor-pointer flex justify-center items-center gap-2 hover:bg-red-600 transition-colors disabled:bg-gray-400"
-            onClick={onReset}
+            className="bg-blue-600 text-white px-3 py-1 rounded cursor-pointer hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+            onClick={handleExportCsv}
             disabled={matchHistory.length === 0}
           >
-            <Image
-              src={"/reset.svg"}
-              width={30}
-              height={30}
-              alt="Reset History"
-            />
-            Reset History
+            Export CSV
           </button>
+          {onReset && (
+            <button
+              className="bg-red-500 text-white px-3 py-1 rounded cursor-pointer flex justify-center items-center gap-2 hover:bg-red-600 transition-colors disabled:bg-gray-400"
+              onClick={onReset}
+              disabled={matchHistory.length === 0}
+            >
+              <Image
+                src={"/reset.svg"}
+                width={30}
+                height={30}
+                alt="Reset History"
+              />
+              Reset History
+            </button>
+          )}
         </div>
       </div>
     </div>
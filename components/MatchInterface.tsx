@@ -5,6 +5,17 @@ import ScoreBoard from "@/components/ScoreBoard";
 import ActionButtons from "@/components/ActionButtons";
 import IconButton from "@/components/IconButton";
 import Pause from "@/components/Pause";
+import ChangeEndsPrompt from "@/components/ChangeEndsPrompt";
+import SettingPrompt from "@/components/SettingPrompt";
+import IntervalCountdown from "@/components/IntervalCountdown";
+import {
+  EndChangeReason,
+  IntervalRecord,
+  ResumeScore,
+  RuleSet,
+  SettingOffer,
+} from "@/types/match";
+import { StateIssue } from "@/engine";
 
 /**
  * Props interface for the MatchInterface component.
@@ -21,20 +32,47 @@ interface MatchInterfaceProps {
   pointsB: number;
   setsB: number;
   handleIncrement: (side: "A" | "B") => void;
+  handleLet: () => void;
+  setShowCardModal: (show: boolean) => void;
+  setShowEndMatchModal: (show: boolean) => void;
+  setShowServiceCorrectionModal: (show: boolean) => void;
+  setShowEditScoreModal: (show: boolean) => void;
   isPaused: boolean;
   serverSide: "A" | "B" | null;
   handleUndo: () => void;
+  handleRedo: () => void;
   handlePause: () => void;
   handleStartMatch: (
     newPlayers: { teamA: string[]; teamB: string[] },
     firstServe: "A" | "B",
     firstServerName: string,
     opponentReceiverName: string,
-    scoringSystemParam?: number
+    rulesParam?: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
   setShowMatchHistoryModal: (show: boolean) => void;
   setShowHelpModal: (show: boolean) => void;
   handleResume: () => void;
+  isMatchFinished: boolean;
+  matchWinner: "A" | "B" | null;
+  onShowSummary: () => void;
+  leftSide: "A" | "B";
+  endChange: EndChangeReason | null;
+  onDismissEndChange: () => void;
+  serverHand: 1 | 2 | null;
+  settingOffer: SettingOffer | null;
+  gameTarget: number;
+  serviceCourt: "left" | "right" | null;
+  isCourtViewFlipped: boolean;
+  onToggleCourtView: () => void;
+  onChooseSetting: (setGame: boolean) => void;
+  currentInterval: IntervalRecord | null;
+  intervalRemaining: number | null;
+  onEndInterval: () => void;
+  stateIssues: StateIssue[];
+  onFixServeState: () => void;
+  /** The printable scoresheet of the match in progress, if there is one. */
+  scoresheetHref: string | null;
 }
 
 /**
@@ -42,14 +80,26 @@ interface MatchInterfaceProps {
  *
  * This component renders the primary user interface for an active match.
  * It consolidates various sub-components to display:
- * - Player names and serve/receive indicators (`PlayerName`)
+ * - Player names and serve/receive indicators, with the L/R court hints
+ *   (mirrored while `isCourtViewFlipped`) (`PlayerName`)
  * - The main scoreboards for each team (`ScoreBoard`)
- * - Control buttons for undo, pause, new match (`ActionButtons`)
+ * - Control buttons for undo, redo, let, cards, pause, new match (`ActionButtons`)
  * - The match history button (`IconButton`)
  * - The pause overlay (`Pause`)
+ * - The "change ends" prompt (`ChangeEndsPrompt`)
+ * - The side-out "setting" choice at a tied score (`SettingPrompt`)
+ * - The mandatory interval countdown (`IntervalCountdown`)
+ * - In development, a non-blocking warning when the state breaks a scoring
+ *   or service invariant, with a "fix serve state" shortcut
+ * - A "match finished" banner that reopens the final summary, or while the
+ *   match is in progress the "correct service" (BWF Law 12) and "end match"
+ *   (retirement, walkover, disqualification) buttons, and a link to the
+ *   printable scoresheet (opened in a new tab, so play goes on here)
  *
  * It manages the responsive layout, showing a full header on desktop
- * and splitting the header on mobile.
+ * and splitting the header on mobile. The team on the left end (`leftSide`)
+ * is drawn on the left scoreboard, so the display follows the real court
+ * when the teams change ends.
  *
  * @param {MatchInterfaceProps} props - The collected state and handlers from the main Page component.
  * @returns {JSX.Element} A React fragment containing the active match UI.
@@ -65,17 +115,123 @@ export default function MatchInterface({
   pointsB,
   setsB,
   handleIncrement,
+  handleLet,
+  setShowCardModal,
+  setShowEndMatchModal,
+  setShowServiceCorrectionModal,
+  setShowEditScoreModal,
   isPaused,
   serverSide,
   handleUndo,
+  handleRedo,
   handlePause,
   handleStartMatch,
   setShowMatchHistoryModal,
   setShowHelpModal,
   handleResume,
+  isMatchFinished,
+  matchWinner,
+  onShowSummary,
+  leftSide,
+  endChange,
+  onDismissEndChange,
+  serverHand,
+  settingOffer,
+  gameTarget,
+  onChooseSetting,
+  serviceCourt,
+  isCourtViewFlipped,
+  onToggleCourtView,
+  currentInterval,
+  intervalRemaining,
+  onEndInterval,
+  stateIssues,
+  onFixServeState,
+  scoresheetHref,
 }: MatchInterfaceProps) {
+  const rightSide = leftSide === "A" ? "B" : "A";
+  const pointsOf = (side: "A" | "B") => (side === "A" ? pointsA : pointsB);
+  const setsOf = (side: "A" | "B") => (side === "A" ? setsA : setsB);
+  const teamNameOf = (side: "A" | "B") =>
+    (side === "A" ? players.teamA : players.teamB).join(" & ");
+
+  const winnerName = matchWinner ? teamNameOf(matchWinner) : "";
+
   return (
     <div className="flex flex-col w-full h-full items-center justify-end sm:justify-center ">
+      {/* Match Finished Banner */}
+      {isMatchFinished ? (
+        <button
+          onClick={onShowSummary}
+          className="mt-2 bg-indicator text-black font-main tracking-widest px-4 py-2 rounded-md cursor-pointer hover:bg-gray-200 sm:text-xl"
+        >
+          MATCH FINISHED — {winnerName.toUpperCase()} WINS
+        </button>
+      ) : (
+        <div className="mt-2 flex flex-wrap justify-center gap-2">
+          <button
+            onClick={() => setShowServiceCorrectionModal(true)}
+            className="border-2 border-white text-white font-main tracking-widest px-3 py-1 rounded-md cursor-pointer hover:bg-white hover:text-black text-sm sm:text-base"
+          >
+            CORRECT SERVICE
+          </button>
+          <button
+            onClick={() => setShowEditScoreModal(true)}
+            className="border-2 border-white text-white font-main tracking-widest px-3 py-1 rounded-md cursor-pointer hover:bg-white hover:text-black text-sm sm:text-base"
+          >
+            EDIT SCORE
+          </button>
+          <button
+            onClick={() => setShowEndMatchModal(true)}
+            className="border-2 border-white text-white font-main tracking-widest px-3 py-1 rounded-md cursor-pointer hover:bg-white hover:text-black text-sm sm:text-base"
+          >
+            END MATCH
+          </button>
+          {scoresheetHref && (
+            <a
+              href={scoresheetHref}
+              target="_blank"
+              rel="noopener"
+              className="border-2 border-white text-white font-main tracking-widest px-3 py-1 rounded-md cursor-pointer hover:bg-white hover:text-black text-sm sm:text-base"
+            >
+              SCORESHEET
+            </a>
+          )}
+          <button
+            onClick={onToggleCourtView}
+            className={`border-2 border-white font-main tracking-widest px-3 py-1 rounded-md cursor-pointer hover:bg-white hover:text-black text-sm sm:text-base ${
+              isCourtViewFlipped ? "bg-white text-black" : "text-white"
+            }`}
+            title="Mirror the L/R court hints for an umpire on the other side"
+          >
+            FLIP L/R
+          </button>
+        </div>
+      )}
+
+      {/* State Invariant Warning (development only) */}
+      {stateIssues.length > 0 && (
+        <div className="mt-2 mx-2 max-w-2xl bg-amber-100 border-2 border-amber-500 text-black rounded-md px-4 py-2 text-sm sm:text-base">
+          <p className="font-bold">The match state looks wrong:</p>
+          <ul className="list-disc pl-5">
+            {stateIssues.map((issue) => (
+              <li key={issue.code}>{issue.message}</li>
+            ))}
+          </ul>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <button
+              onClick={onFixServeState}
+              className="bg-amber-500 font-main tracking-widest px-3 py-1 rounded-md cursor-pointer hover:bg-amber-600"
+            >
+              FIX SERVE STATE
+            </button>
+            <span className="text-gray-700 text-xs sm:text-sm">
+              A diagnostic report was logged to the console.
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Desktop Player Name Header */}
       <div className="mt-6 w-full hidden sm:block">
         <PlayerName
@@ -83,18 +239,23 @@ export default function MatchInterface({
           timer={formatTime(time)}
           currentServer={currentServer}
           currentReceiver={currentReceiver}
+          leftSide={leftSide}
+          serviceCourt={serviceCourt}
+          flipCourts={isCourtViewFlipped}
         />
       </div>
 
-      {/* Main Scoreboards (A and B) */}
+      {/* Main Scoreboards (left end and right end) */}
       <div className="flex flex-col sm:flex-row items-center sm:gap-0 md:mt-4 w-full">
         <ScoreBoard
-          side="A"
-          points={pointsA}
-          sets={setsA}
+          side={leftSide}
+          position="left"
+          points={pointsOf(leftSide)}
+          sets={setsOf(leftSide)}
           onIncrement={handleIncrement}
-          disabled={isPaused}
-          isServing={serverSide === "A"}
+          disabled={isPaused || isMatchFinished}
+          isServing={serverSide === leftSide}
+          serverHand={serverHand}
         />
         {/* Mobile Player Name Header (In-between scoreboards) */}
         <div className="block w-full sm:hidden">
@@ -103,15 +264,20 @@ export default function MatchInterface({
             timer={formatTime(time)}
             currentServer={currentServer}
             currentReceiver={currentReceiver}
+            leftSide={leftSide}
+            serviceCourt={serviceCourt}
+            flipCourts={isCourtViewFlipped}
           />
         </div>
         <ScoreBoard
-          side="B"
-          points={pointsB}
-          sets={setsB}
+          side={rightSide}
+          position="right"
+          points={pointsOf(rightSide)}
+          sets={setsOf(rightSide)}
           onIncrement={handleIncrement}
-          disabled={isPaused}
-          isServing={serverSide === "B"}
+          disabled={isPaused || isMatchFinished}
+          isServing={serverSide === rightSide}
+          serverHand={serverHand}
         />
       </div>
 
@@ -127,6 +293,9 @@ export default function MatchInterface({
         </div>
         <ActionButtons
           onUndo={handleUndo}
+          onRedo={handleRedo}
+          onLet={handleLet}
+          onCard={() => setShowCardModal(true)}
           onPause={handlePause}
           onStartMatch={handleStartMatch}
         />
@@ -140,6 +309,35 @@ export default function MatchInterface({
         </div>
       </div>
 
+      {/* Change Ends Prompt */}
+      {endChange && (
+        <ChangeEndsPrompt
+          reason={endChange}
+          leftTeamName={teamNameOf(leftSide)}
+          rightTeamName={teamNameOf(rightSide)}
+          onDismiss={onDismissEndChange}
+        />
+      )}
+
+      {/* Setting Prompt (side-out scoring only) */}
+      {settingOffer && (
+        <SettingPrompt
+          offer={settingOffer}
+          target={gameTarget}
+          teamName={teamNameOf(settingOffer.side)}
+          onChoose={onChooseSetting}
+        />
+      )}
+
+      {/* Interval Countdown (rendered above the change ends prompt) */}
+      {currentInterval && intervalRemaining !== null && (
+        <IntervalCountdown
+          kind={currentInterval.kind}
+          remaining={intervalRemaining}
+          onResume={onEndInterval}
+        />
+      )}
+
       {/* Pause Overlay */}
       {isPaused && <Pause handleResume={handleResume} />}
     </div>
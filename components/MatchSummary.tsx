@@ -0,0 +1,174 @@
+"use client";
+
+import Image from "next/image";
+import { MatchOutcome, Players } from "@/types/match";
+import { describeOutcome } from "@/utils/matchOutcome";
+
+/**
+ * The subset of a completed game (set) needed for the summary.
+ * NOTE: This type must be kept in sync with the 'GameSnapshot' type in types/match.ts.
+ */
+type GameSnapshot = {
+  gameNumber: number;
+  pointsA: number;
+  pointsB: number;
+  winnerSide: "A" | "B" | null;
+  duration: number;
+  incomplete: boolean;
+  resumed: boolean;
+};
+
+/**
+ * Props for the MatchSummary component.
+ */
+interface MatchSummaryProps {
+  /** The side that won the match. */
+  matchWinner: "A" | "B";
+  /** How the match was decided. */
+  outcome: MatchOutcome | null;
+  /** All completed games of the match. */
+  matchHistory: GameSnapshot[];
+  /** The player rosters for both teams. */
+  players: Players;
+  /** Games won by Team A. */
+  setsA: number;
+  /** Games won by Team B. */
+  setsB: number;
+  /** The match length in games (1, 3 or 5). */
+  gamesPerMatch: number;
+  /** Callback function triggered when the user closes the summary. */
+  onClose: () => void;
+  /** The printable scoresheet of the match, once it is archived. */
+  scoresheetHref: string | null;
+}
+
+/**
+ * Helper function to format duration as MM:SS (only used in this component)
+ */
+const formatDuration = (seconds: number) => {
+  const mins = String(Math.floor(seconds / 60)).padStart(2, "0");
+  const secs = String(seconds % 60).padStart(2, "0");
+  return `${mins}:${secs}`;
+};
+
+/**
+ * @summary
+ * The final summary screen shown once a match has been decided.
+ *
+ * @description
+ * Displays the match winner (and how the match was decided, if not played
+ * out), the games score and a game-by-game breakdown (score and duration). It is rendered by `SetFinishModal` in place of the
+ * "Continue to Next Set" prompt when the reducer reports `MATCH_FINISHED`.
+ * The finished match can be printed from its scoresheet, opened in a new tab.
+ *
+ * @param {MatchSummaryProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered match summary.
+ */
+export default function MatchSummary({
+  matchWinner,
+  outcome,
+  matchHistory,
+  players,
+  setsA,
+  setsB,
+  gamesPerMatch,
+  onClose,
+  scoresheetHref,
+}: MatchSummaryProps) {
+  const teamAName = players.teamA.join(" & ");
+  const teamBName = players.teamB.join(" & ");
+  const winnerName = matchWinner === "A" ? teamAName : teamBName;
+  const outcomeText = describeOutcome(
+    outcome,
+    matchWinner === "A" ? teamBName : teamAName
+  );
+  const totalDuration = matchHistory.reduce(
+    (acc, game) => acc + game.duration,
+    0
+  );
+
+  return (
+    <div className="space-y-4 px-1">
+      {/* 1. Title & Winner */}
+      <div className="flex flex-col items-center gap-2 text-center">
+        <Image src="/logo.svg" width={60} height={60} alt="Match Finished" />
+        <h3 className="text-xl sm:text-3xl font-bold">Match Finished</h3>
+        <p className="sm:text-xl">
+          Winner:{" "}
+          <span
+            className={`font-bold ${
+              matchWinner === "A" ? "text-green" : "text-yellow"
+            }`}
+          >
+            {winnerName}
+          </span>
+        </p>
+        {outcomeText && (
+          <p className="text-red-600 font-semibold">{outcomeText}</p>
+        )}
+        <p className="text-3xl sm:text-5xl font-bold tracking-wider">
+          {setsA} - {setsB}
+        </p>
+        <p className="text-gray-500">Best of {gamesPerMatch}</p>
+      </div>
+
+      {/* 2. Game-by-game Breakdown */}
+      <div className="grid grid-cols-4 gap-x-4 gap-y-2 sm:text-lg border-t pt-4">
+        <div className="font-bold text-gray-600">Game</div>
+        <div className="font-bold text-center text-green">{teamAName}</div>
+        <div className="font-bold text-center text-yellow">{teamBName}</div>
+        <div className="font-bold text-center text-gray-600">Duration</div>
+
+        {matchHistory.map((game) => (
+          <div key={game.gameNumber} className="contents">
+            <div className="text-gray-600">
+              Game {game.gameNumber}
+              {game.incomplete && " (Unfinished)"}
+              {game.resumed && " (Entered)"}
+            </div>
+            <div
+              className={`text-center text-xl ${
+                game.winnerSide === "A" ? "font-bold" : ""
+              }`}
+            >
+              {game.pointsA}
+            </div>
+            <div
+              className={`text-center text-xl ${
+                game.winnerSide === "B" ? "font-bold" : ""
+              }`}
+            >
+              {game.pointsB}
+            </div>
+            <div className="text-center">
+              {game.resumed ? "—" : formatDuration(game.duration)}
+            </div>
+          </div>
+        ))}
+
+        <div className="text-gray-600 col-span-3">Total Duration</div>
+        <div className="text-center font-semibold">
+          {formatDuration(totalDuration)}
+        </div>
+      </div>
+
+      {/* 3. Scoresheet & Close Buttons */}
+      {scoresheetHref && (
+        <a
+          href={scoresheetHref}
+          target="_blank"
+          rel="noopener"
+          className="mt-6 block text-center bg-gray-200 px-4 py-2 rounded w-full hover:bg-gray-300 transition-colors sm:text-lg"
+        >
+          Print Scoresheet
+        </a>
+      )}
+      <button
+        className="mt-6 bg-blue-600 text-white px-4 py-2 rounded w-full hover:bg-blue-700 transition-colors sm:text-lg cursor-pointer"
+        onClick={onClose}
+      >
+        Close
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { CardColor, Players } from "@/types/match";
+
+/**
+ * Props for the MisconductCardModal component.
+ */
+interface MisconductCardModalProps {
+  /** Controls the visibility of the modal. If false, the component returns null. */
+  show: boolean;
+  /** The player rosters for both teams. */
+  players: Players;
+  /** Callback function triggered when a card is issued. */
+  onIssue: (player: string, color: CardColor) => void;
+  /** Callback function triggered when the user closes the modal. */
+  onClose: () => void;
+}
+
+/**
+ * The card options, in order of severity (BWF Law 16).
+ * @internal
+ */
+const CARD_OPTIONS: {
+  color: CardColor;
+  label: string;
+  description: string;
+  className: string;
+}[] = [
+  {
+    color: "YELLOW",
+    label: "Warning",
+    description: "Yellow card. No change to the score.",
+    className: "bg-yellow-300 hover:bg-yellow-400 text-black",
+  },
+  {
+    color: "RED",
+    label: "Fault",
+    description: "Red card. The opponent wins the rally.",
+    className: "bg-red-600 hover:bg-red-700 text-white",
+  },
+  {
+    color: "BLACK",
+    label: "Disqualification",
+    description: "Black card. The opponent wins the match.",
+    className: "bg-black hover:bg-gray-800 text-white",
+  },
+];
+
+/**
+ * @summary
+ * A modal for issuing a misconduct card to a player.
+ *
+ * @description
+ * The umpire selects the offending player and then one of the three cards:
+ * a yellow card (warning), a red card (fault) or a black card
+ * (disqualification). The effect on the score is applied by the reducer.
+ *
+ * @param {MisconductCardModalProps} props - The props for the component.
+ * @returns {JSX.Element | null} The rendered modal or `null` if `show` is false.
+ */
+export default function MisconductCardModal({
+  show,
+  players,
+  onIssue,
+  onClose,
+}: MisconductCardModalProps) {
+  const allPlayers = [...players.teamA, ...players.teamB];
+  const [selectedPlayer, setSelectedPlayer] = useState("");
+
+  if (!show) return null;
+
+  // Fall back to the first player until one is picked (or after a new match)
+  const player = allPlayers.includes(selectedPlayer)
+    ? selectedPlayer
+    : allPlayers[0];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-50 p-4">
+      <div className="relative bg-white rounded-xl p-6 w-full max-w-md space-y-4">
+        {/* Close Button */}
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 rounded-lg hover:bg-gray-200 cursor-pointer p-1"
+        >
+          <Image src={"/close.svg"} width={30} height={30} alt="Close Button" />
+        </button>
+
+        <h3 className="text-xl sm:text-3xl font-bold text-center">
+          Misconduct Card
+        </h3>
+
+        {/* Player selection */}
+        <div>
+          <label className="block mb-1 font-semibold">Player:</label>
+          <select
+            className="border p-2 rounded w-full"
+            value={player}
+            onChange={(e) => setSelectedPlayer(e.target.value)}
+          >
+            {allPlayers.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Card buttons */}
+        <div className="space-y-2">
+          {CARD_OPTIONS.map((option) => (
+            <button
+              key={option.color}
+              className={`w-full px-4 py-2 rounded text-left transition-colors cursor-pointer ${option.className}`}
+              onClick={() => onIssue(player, option.color)}
+            >
+              <span className="block font-bold sm:text-lg">{option.label}</span>
+              <span className="block text-sm">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,21 +6,24 @@
 
 import Image from "next/image";
 import NewMatch from "./NewMatch";
+import { ResumeScore, RuleSet } from "@/types/match";
+import { getQuickStartRuleSets } from "@/utils/ruleSets";
 
 /**
  * Props definition for the Navbar component.
  */
 interface NavbarProps {
   /**
-   * Callback function triggered when a scoring system is selected.
-   * @param system - The selected scoring system value (e.g., 15, 21, or 30).
+   * Callback function triggered when a new match is configured from one of the presets.
+   * @param rulesParam - The selected rule set (e.g., the 21-point preset).
    */
   onStartMatch: (
     players: { teamA: string[]; teamB: string[] },
     firstServe: "A" | "B",
     firstServerName: string,
     opponentServerName: string,
-    scoringSystemParam?: number
+    rulesParam?: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
 
   isMatchStarted: boolean;
@@ -32,7 +35,9 @@ interface NavbarProps {
  * Displays the main navigation bar for the badminton score application.
  * It includes:
  * - A logo on the left.
- * - A set of circular buttons on the right for selecting the scoring system.
+ * - A set of buttons on the right for starting a new match with one of the
+ *   quick-start rule set presets from `utils/ruleSets.ts`.
+ * - A link to the match archive (`/archive`).
  *
  * The component is fixed at the top of the viewport and styled using Tailwind CSS.
  */
@@ -55,18 +60,29 @@ export default function Navbar({ onStartMatch, isMatchStarted }: NavbarProps) {
           />
         </a>
       </div>
-      {isMatchStarted && (
-        <div className="flex gap-4 ">
-          {[15, 21, 30].map((num) => (
+      <div className="flex items-center gap-4 ">
+        {isMatchStarted &&
+          getQuickStartRuleSets().map((rules) => (
             <NewMatch
-              key={num}
+              key={rules.id}
               onStartMatch={onStartMatch}
-              presetScoring={num}
+              presetRules={rules}
               variant="text"
             />
           ))}
-        </div>
-      )}
+        <a
+          href={"/archive"}
+          className="flex justify-center items-center rounded p-1 md:p-2 hover:bg-white/20 transition duration-300"
+          title="Match Archive"
+        >
+          <Image
+            src="/history.svg"
+            width={30}
+            height={30}
+            alt="Match Archive"
+          />
+        </a>
+      </div>
     </header>
   );
 }
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import Image from "next/image";
 import NewMatchModal from "./NewMatchModal";
+import { ResumeScore, RuleSet } from "@/types/match";
 
 /**
  * Represents the player configuration for a match.
@@ -26,24 +27,26 @@ interface NewMatchProps {
    * @param firstServe - The side ('A' or 'B') that will serve first.
    * @param firstServerName - The name of the player serving first (Even player).
    * @param opponentReceiverName - The name of the player receiving first (Even player).
-   * @param scoringSystem - The chosen scoring system (e.g., 15, 21, 30).
+   * @param rules - The chosen rule set.
+   * @param resumeFrom - The score to resume from, if the match did not start at 0-0.
    */
   onStartMatch: (
     players: Players,
     firstServe: "A" | "B",
     firstServerName: string,
     opponentReceiverName: string,
-    scoringSystem: number
+    rules: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
   /**
-   * An optional preset scoring system. If provided, the "text" variant
-   * will display this number, and the modal will skip the scoring selection step.
+   * An optional preset rule set. If provided, the "text" variant will display
+   * its target score, and the modal will skip the scoring selection step.
    */
-  presetScoring?: number | null;
+  presetRules?: RuleSet | null;
   /**
    * The visual style of the button.
    * - `"icon"`: Displays a "forward" icon (default).
-   * - `"text"`: Displays the `presetScoring` value.
+   * - `"text"`: Displays the `presetRules` target score.
    * @default "icon"
    */
   variant?: "icon" | "text";
@@ -64,7 +67,7 @@ interface NewMatchProps {
  */
 export default function NewMatch({
   onStartMatch,
-  presetScoring = null,
+  presetRules = null,
   variant = "icon",
 }: NewMatchProps) {
   /**
@@ -104,7 +107,7 @@ export default function NewMatch({
         ) : (
           // Text (Score) Variant
           <p className="text-lg md:text-3xl font-semibold tracking-wider">
-            {presetScoring}
+            {presetRules?.target}
           </p>
         )}
       </button>
@@ -114,7 +117,7 @@ export default function NewMatch({
         show={showModal}
         onClose={() => setShowModal(false)}
         onStartMatch={onStartMatch}
-        presetScoring={presetScoring}
+        presetRules={presetRules}
       />
     </div>
   );
@@ -2,6 +2,16 @@
 
 import { useState } from "react";
 import Image from "next/image";
+import { ResumeScore, RuleSet } from "@/types/match";
+import { getGamesToWin } from "@/utils/getGamesToWin";
+import {
+  RULE_SET_PRESETS,
+  createCustomRuleSet,
+  describeRuleSet,
+  getHandicap,
+  isPlayableScore,
+  isResumableScore,
+} from "@/utils/ruleSets";
 
 /**
  * Defines the structure for the players object.
@@ -19,15 +29,55 @@ interface Players {
 type FormData = {
   teamA1: string;
   teamA2: string;
+  teamA3: string;
   teamB1: string;
   teamB2: string;
+  teamB3: string;
+};
+
+/** The empty player name form. @internal */
+const EMPTY_FORM: FormData = {
+  teamA1: "",
+  teamA2: "",
+  teamA3: "",
+  teamB1: "",
+  teamB2: "",
+  teamB3: "",
+};
+
+/**
+ * The match modes: singles, doubles ("ganda") and AirBadminton triples.
+ * @internal
+ */
+type Mode = "single" | "ganda" | "triples";
+
+/**
+ * Defines the values edited in the custom-rules editor.
+ * @internal
+ */
+type CustomRulesForm = Omit<RuleSet, "id" | "name">;
+
+/** The values the custom-rules editor starts from (BWF 21-point). @internal */
+const DEFAULT_CUSTOM_RULES: CustomRulesForm = {
+  target: 21,
+  winBy: 2,
+  cap: 30,
+  gamesPerMatch: 3,
+  intervals: true,
 };
 
 /**
  * Defines the possible steps in the multi-step modal.
  * @internal
  */
-type Step = "mode" | "scoring" | "players" | "serve" | "selectServer";
+type Step =
+  | "mode"
+  | "scoring"
+  | "length"
+  | "players"
+  | "start"
+  | "serve"
+  | "selectServer";
 
 /**
  * Props accepted by the NewMatchModal component.
@@ -43,20 +93,22 @@ interface NewMatchModalProps {
    * @param firstServe - The side ('A' or 'B') that will serve first.
    * @param firstServerName - The name of the player serving first.
    * @param opponentReceiverName - The name of the player receiving first.
-   * @param scoringSystem - The chosen scoring system (e.g., 15, 21, 30).
+   * @param rules - The chosen rule set, including the match length.
+   * @param resumeFrom - The score to resume from, if the match did not start at 0-0.
    */
   onStartMatch: (
     players: Players,
     firstServe: "A" | "B",
     firstServerName: string,
     opponentReceiverName: string,
-    scoringSystem: number
+    rules: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
   /**
-   * An optional preset scoring system.
+   * An optional preset rule set.
    * If provided, the "scoring" step will be skipped.
    */
-  presetScoring?: number | null;
+  presetRules?: RuleSet | null;
 }
 
 /**
@@ -65,7 +117,10 @@ interface NewMatchModalProps {
  *
  * @description
  * This component manages its own internal state for the setup process, including
- * match mode (single/doubles), player names, and server/receiver selection.
+ * match mode (singles, doubles or AirBadminton triples), rule set (a preset from the registry or custom
+ * rules), match length (best of 1, 3 or 5) with an optional handicap, player
+ * names, the score to start from (0-0, or a match already under way), and
+ * server/receiver selection.
  * When the user completes the final step, it calls the `onStartMatch` prop
  * with the complete match configuration.
  *
@@ -76,23 +131,21 @@ export default function NewMatchModal({
   show,
   onClose,
   onStartMatch,
-  presetScoring = null,
+  presetRules = null,
 }: NewMatchModalProps) {
   // --- Internal Modal State ---
-  const [mode, setMode] = useState<"single" | "ganda">("single");
-  const [scoringSystem, setScoringSystem] = useState<number | null>(
-    presetScoring
-  );
-  const [formData, setFormData] = useState<FormData>({
-    teamA1: "",
-    teamA2: "",
-    teamB1: "",
-    teamB2: "",
-  });
+  const [mode, setMode] = useState<Mode>("single");
+  const [rules, setRules] = useState<RuleSet | null>(presetRules);
+  const [isCustom, setIsCustom] = useState(false);
+  const [customRules, setCustomRules] =
+    useState<CustomRulesForm>(DEFAULT_CUSTOM_RULES);
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
   const [step, setStep] = useState<Step>("mode");
   const [firstServe, setFirstServe] = useState<"A" | "B" | null>(null);
   const [firstServerName, setFirstServerName] = useState("");
   const [firstReceiverName, setFirstReceiverName] = useState("");
+  /** The score to resume from; `null` starts the match at 0-0. */
+  const [resumeFrom, setResumeFrom] = useState<ResumeScore | null>(null);
 
   /**
    * @summary
@@ -107,14 +160,38 @@ export default function NewMatchModal({
     setTimeout(() => {
       setStep("mode");
       setMode("single");
-      setScoringSystem(presetScoring);
-      setFormData({ teamA1: "", teamA2: "", teamB1: "", teamB2: "" });
+      setRules(presetRules);
+      setIsCustom(false);
+      setCustomRules(DEFAULT_CUSTOM_RULES);
+      setFormData(EMPTY_FORM);
       setFirstServe(null);
       setFirstServerName("");
       setFirstReceiverName("");
+      setResumeFrom(null);
     }, 300); // Adjust this delay to match your exit transition
   };
 
+  /**
+   * @summary Gets a team's player names for the selected mode, with defaults for empty fields.
+   * @param {"A" | "B"} side - The team.
+   * @returns {string[]} One, two or three names.
+   */
+  const teamNames = (side: "A" | "B"): string[] => {
+    if (mode === "single") {
+      return side === "A"
+        ? [formData.teamA1 || "Player 1"]
+        : [formData.teamB1 || "Player 2"];
+    }
+
+    const names =
+      side === "A"
+        ? [formData.teamA1, formData.teamA2, formData.teamA3]
+        : [formData.teamB1, formData.teamB2, formData.teamB3];
+    return names
+      .slice(0, mode === "triples" ? 3 : 2)
+      .map((name, i) => name || `Team ${side}.${i + 1}`);
+  };
+
   /**
    * @summary
    * Gathers all internal state, validates it, formats it, and calls `onStartMatch`.
@@ -124,24 +201,10 @@ export default function NewMatchModal({
    * triggers the `onStartMatch` prop before closing the modal.
    */
   const handleStart = () => {
-    if (!mode || !firstServe || !scoringSystem) return;
-
-    const players: Players =
-      mode === "single"
-        ? {
-            teamA: [formData.teamA1 || "Player 1"],
-            teamB: [formData.teamB1 || "Player 2"],
-          }
-        : {
-            teamA: [
-              formData.teamA1 || "Team A.1",
-              formData.teamA2 || "Team A.2",
-            ],
-            teamB: [
-              formData.teamB1 || "Team B.1",
-              formData.teamB2 || "Team B.2",
-            ],
-          };
+    if (!mode || !firstServe || !rules) return;
+    if (!isResumeValid) return;
+
+    const players: Players = { teamA: teamNames("A"), teamB: teamNames("B") };
 
     let serveName = "";
     let receiverName = "";
@@ -151,16 +214,37 @@ export default function NewMatchModal({
       serveName = firstServe === "A" ? players.teamA[0] : players.teamB[0];
       receiverName = firstServe === "A" ? players.teamB[0] : players.teamA[0];
     } else {
-      // For doubles, use the selected names
+      // For doubles and triples, use the selected names
       if (!firstServerName || !firstReceiverName) return;
       serveName = firstServerName;
       receiverName = firstReceiverName;
     }
 
-    onStartMatch(players, firstServe, serveName, receiverName, scoringSystem);
+    onStartMatch(
+      players,
+      firstServe,
+      serveName,
+      receiverName,
+      rules,
+      resumeFrom ?? undefined
+    );
     handleClose(); // Close modal after starting
   };
 
+  /** The custom rules are usable only with a positive target and a cap at or above it. */
+  const isCustomValid =
+    customRules.target > 0 &&
+    (customRules.cap === null || customRules.cap >= customRules.target);
+
+  /** A handicap must leave the first game open (e.g., not 21-0 in a 21-point game). */
+  const isHandicapValid =
+    !rules ||
+    isPlayableScore(rules, { ...getHandicap(rules), setsA: 0, setsB: 0 });
+
+  /** Resuming needs a match in progress under the chosen rules. */
+  const isResumeValid =
+    !resumeFrom || (rules !== null && isResumableScore(rules, resumeFrom));
+
   // Do not render anything if the modal is not supposed to be shown
   if (!show) {
     return null;
@@ -187,7 +271,7 @@ export default function NewMatchModal({
               <button
                 onClick={() => {
                   setMode("single");
-                  setStep(presetScoring ? "players" : "scoring");
+                  setStep(presetRules ? "length" : "scoring");
                 }}
                 className="bg-green text-white px-4 py-2 rounded-md hover:bg-green-700 cursor-pointer"
               >
@@ -196,73 +280,273 @@ export default function NewMatchModal({
               <button
                 onClick={() => {
                   setMode("ganda");
-                  setStep(presetScoring ? "players" : "scoring");
+                  setStep(presetRules ? "length" : "scoring");
                 }}
                 className="bg-yellow text-black px-4 py-2 rounded-md hover:bg-yellow-500 cursor-pointer"
               >
                 Doubles
               </button>
+              <button
+                onClick={() => {
+                  setMode("triples");
+                  setStep(presetRules ? "length" : "scoring");
+                }}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 cursor-pointer"
+              >
+                Triples
+              </button>
             </div>
           </div>
         )}
 
-        {/* Step 2: Select Scoring (if not preset) */}
-        {!presetScoring && step === "scoring" && (
+        {/* Step 2: Select Rule Set (if not preset) */}
+        {!presetRules && step === "scoring" && (
           <div className="text-center">
             <h2 className="text-xl sm:text-3xl font-bold mb-4">
               Select Scoring System
             </h2>
 
-            {/* --- Tombol 15, 21, 30 --- */}
+            {/* --- Presets from the registry --- */}
             <div className="flex flex-col gap-3 sm:text-xl mb-6">
+              {RULE_SET_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => {
+                    setRules(preset);
+                    setIsCustom(false);
+                  }}
+                  className={`px-6 py-3 rounded-md transition-colors ${
+                    !isCustom && rules?.id === preset.id
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-200 hover:bg-gray-300"
+                  }`}
+                >
+                  {preset.name} ({describeRuleSet(preset)})
+                </button>
+              ))}
               <button
-                onClick={() => setScoringSystem(15)}
+                onClick={() => setIsCustom(true)}
                 className={`px-6 py-3 rounded-md transition-colors ${
-                  scoringSystem === 15
-                    ? "bg-blue-600 text-white" // Warna aktif
-                    : "bg-gray-200 hover:bg-gray-300" // Warna non-aktif
+                  isCustom
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-200 hover:bg-gray-300"
                 }`}
               >
-                15 Points (Max 21)
+                Custom Rules
               </button>
+            </div>
+
+            {/* --- Custom-rules editor --- */}
+            {isCustom && (
+              <div className="flex flex-col gap-3 text-left sm:text-xl border-t pt-4">
+                <label className="flex justify-between items-center gap-4">
+                  Points to win
+                  <input
+                    type="number"
+                    min={1}
+                    value={customRules.target}
+                    onChange={(e) =>
+                      setCustomRules({
+                        ...customRules,
+                        target: Number(e.target.value),
+                      })
+                    }
+                    className="border p-2 rounded-md w-28"
+                  />
+                </label>
+                <label className="flex justify-between items-center gap-4">
+                  Win by
+                  <select
+                    value={customRules.winBy}
+                    onChange={(e) =>
+                      setCustomRules({
+                        ...customRules,
+                        winBy: Number(e.target.value),
+                      })
+                    }
+                    className="border p-2 rounded-md w-28"
+                  >
+                    <option value={2}>2 (deuce)</option>
+                    <option value={1}>1 (no deuce)</option>
+                  </select>
+                </label>
+                <label className="flex justify-between items-center gap-4">
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={customRules.cap !== null}
+                      onChange={(e) =>
+                        setCustomRules({
+                          ...customRules,
+                          cap: e.target.checked ? customRules.target : null,
+                        })
+                      }
+                    />
+                    Score cap
+                  </span>
+                  <input
+                    type="number"
+                    min={customRules.target}
+                    value={customRules.cap ?? ""}
+                    disabled={customRules.cap === null}
+                    onChange={(e) =>
+                      setCustomRules({
+                        ...customRules,
+                        cap: Number(e.target.value),
+                      })
+                    }
+                    className="border p-2 rounded-md w-28 disabled:bg-gray-100"
+                  />
+                </label>
+                {!isCustomValid && (
+                  <p className="text-red-500 text-sm sm:text-base">
+                    The cap must be at least the points to win.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-between mt-6 sm:text-2xl">
               <button
-                onClick={() => setScoringSystem(21)}
-                className={`px-6 py-3 rounded-md transition-colors ${
-                  scoringSystem === 21
-                    ? "bg-blue-600 text-white"
-                    : "bg-gray-200 hover:bg-gray-300"
-                }`}
+                onClick={() => setStep("mode")}
+                className="bg-gray-300 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-400 cursor-pointer"
               >
-                21 Points (Max 30)
+                Back
               </button>
               <button
-                onClick={() => setScoringSystem(30)}
-                className={`px-6 py-3 rounded-md transition-colors ${
-                  scoringSystem === 30
-                    ? "bg-blue-600 text-white"
-                    : "bg-gray-200 hover:bg-gray-300"
+                onClick={() => {
+                  if (isCustom) {
+                    if (!isCustomValid) return;
+                    setRules(createCustomRuleSet(customRules));
+                  }
+                  if (!isCustom && !rules) return;
+                  setStep("length");
+                }}
+                disabled={isCustom ? !isCustomValid : !rules}
+                className={`px-6 py-2 rounded-md cursor-pointer ${
+                  (isCustom ? isCustomValid : rules)
+                    ? "bg-blue-600 text-white hover:bg-blue-700"
+                    : "bg-gray-300 text-gray-500 cursor-not-allowed"
                 }`}
               >
-                30 Points (Max 30)
+                Next
               </button>
             </div>
-            {/* --- Akhir Tombol --- */}
+          </div>
+        )}
+
+        {/* Step 3: Select Match Length */}
+        {step === "length" && rules && (
+          <div className="text-center">
+            <h2 className="text-xl sm:text-3xl font-bold mb-4">
+              Select Match Length
+            </h2>
+
+            <div className="flex flex-col gap-3 sm:text-xl mb-6">
+              {[1, 3, 5].map((games) => (
+                <button
+                  key={games}
+                  onClick={() => setRules({ ...rules, gamesPerMatch: games })}
+                  className={`px-6 py-3 rounded-md transition-colors ${
+                    rules.gamesPerMatch === games
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-200 hover:bg-gray-300"
+                  }`}
+                >
+                  Best of {games} ({getGamesToWin(games)} to win)
+                </button>
+              ))}
+            </div>
+
+            {/* --- Mandatory intervals (can be turned off for casual play) --- */}
+            <label className="flex justify-center items-center gap-2 sm:text-xl">
+              <input
+                type="checkbox"
+                checked={rules.intervals}
+                onChange={(e) =>
+                  setRules({ ...rules, intervals: e.target.checked })
+                }
+              />
+              Intervals (60s at mid-game, 120s between games)
+            </label>
+
+            {/* --- Handicap: starting points for each side in every game --- */}
+            <label className="flex justify-center items-center gap-2 sm:text-xl mt-3">
+              <input
+                type="checkbox"
+                checked={rules.handicap !== undefined}
+                onChange={(e) =>
+                  setRules({
+                    ...rules,
+                    handicap: e.target.checked
+                      ? { pointsA: 0, pointsB: 0 }
+                      : undefined,
+                  })
+                }
+              />
+              Handicap (starting points in every game)
+            </label>
+            {rules.handicap && (
+              <div className="flex justify-center gap-4 mt-3 sm:text-xl">
+                <label className="flex items-center gap-2">
+                  Left Team
+                  <input
+                    type="number"
+                    min={0}
+                    value={rules.handicap.pointsA}
+                    onChange={(e) =>
+                      setRules({
+                        ...rules,
+                        handicap: {
+                          ...getHandicap(rules),
+                          pointsA: Math.max(0, Number(e.target.value)),
+                        },
+                      })
+                    }
+                    className="border p-2 rounded-md w-20"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Right Team
+                  <input
+                    type="number"
+                    min={0}
+                    value={rules.handicap.pointsB}
+                    onChange={(e) =>
+                      setRules({
+                        ...rules,
+                        handicap: {
+                          ...getHandicap(rules),
+                          pointsB: Math.max(0, Number(e.target.value)),
+                        },
+                      })
+                    }
+                    className="border p-2 rounded-md w-20"
+                  />
+                </label>
+              </div>
+            )}
+            {!isHandicapValid && (
+              <p className="text-red-500 text-sm sm:text-base mt-2">
+                A handicap cannot win the game before it starts.
+              </p>
+            )}
 
             <div className="flex justify-between mt-6 sm:text-2xl">
               <button
-                onClick={() => setStep("mode")}
+                onClick={() => setStep(presetRules ? "mode" : "scoring")}
                 className="bg-gray-300 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-400 cursor-pointer"
               >
                 Back
               </button>
               <button
                 onClick={() => {
-                  if (!scoringSystem) return;
+                  if (!isHandicapValid) return;
                   setStep("players");
                 }}
-                disabled={!scoringSystem}
+                disabled={!isHandicapValid}
                 className={`px-6 py-2 rounded-md cursor-pointer ${
-                  scoringSystem
+                  isHandicapValid
                     ? "bg-blue-600 text-white hover:bg-blue-700"
                     : "bg-gray-300 text-gray-500 cursor-not-allowed"
                 }`}
@@ -273,7 +557,7 @@ export default function NewMatchModal({
           </div>
         )}
 
-        {/* Step 3: Enter Player Names */}
+        {/* Step 4: Enter Player Names */}
         {step === "players" && (
           <div className="mt-6">
             <h3 className="text-lg sm:text-3xl font-semibold mb-3 text-center">
@@ -296,7 +580,7 @@ export default function NewMatchModal({
                   }
                   className="border p-2 rounded-md w-full"
                 />
-                {mode === "ganda" && (
+                {mode !== "single" && (
                   <input
                     type="text"
                     placeholder="Player 2 Name"
@@ -307,6 +591,17 @@ export default function NewMatchModal({
                     className="border p-2 rounded-md mt-2 w-full"
                   />
                 )}
+                {mode === "triples" && (
+                  <input
+                    type="text"
+                    placeholder="Player 3 Name"
+                    value={formData.teamA3}
+                    onChange={(e) =>
+                      setFormData({ ...formData, teamA3: e.target.value })
+                    }
+                    className="border p-2 rounded-md mt-2 w-full"
+                  />
+                )}
               </div>
               {/* Team 2 */}
               <div>
@@ -324,7 +619,7 @@ export default function NewMatchModal({
                   }
                   className="border p-2 rounded-md w-full"
                 />
-                {mode === "ganda" && (
+                {mode !== "single" && (
                   <input
                     type="text"
                     placeholder="Player 2 Name"
@@ -335,20 +630,28 @@ export default function NewMatchModal({
                     className="border p-2 rounded-md mt-2 w-full"
                   />
                 )}
+                {mode === "triples" && (
+                  <input
+                    type="text"
+                    placeholder="Player 3 Name"
+                    value={formData.teamB3}
+                    onChange={(e) =>
+                      setFormData({ ...formData, teamB3: e.target.value })
+                    }
+                    className="border p-2 rounded-md mt-2 w-full"
+                  />
+                )}
               </div>
             </div>
             <div className="flex justify-between mt-6 sm:text-2xl">
               <button
-                onClick={() => {
-                  if (presetScoring) setStep("mode");
-                  else setStep("scoring");
-                }}
+                onClick={() => setStep("length")}
                 className="bg-gray-300 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-400 cursor-pointer"
               >
                 Back
               </button>
               <button
-                onClick={() => setStep("serve")}
+                onClick={() => setStep("start")}
                 className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 cursor-pointer"
               >
                 Next
@@ -357,11 +660,192 @@ export default function NewMatchModal({
           </div>
         )}
 
-        {/* Step 4: Select First Serving Team */}
+        {/* Step 5: Start at 0-0 or resume from a score */}
+        {step === "start" && rules && (
+          <div className="text-center mt-4">
+            <h3 className="text-lg sm:text-3xl font-semibold mb-4">
+              Start From
+            </h3>
+            <div className="flex sm:text-xl justify-center gap-6">
+              <button
+                onClick={() => setResumeFrom(null)}
+                className={`px-6 py-3 rounded-md ${
+                  resumeFrom === null
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-200 hover:bg-gray-300"
+                }`}
+              >
+                0 - 0
+              </button>
+              <button
+                onClick={() =>
+                  setResumeFrom(
+                    resumeFrom ?? { completedGames: [], pointsA: 0, pointsB: 0 }
+                  )
+                }
+                className={`px-6 py-3 rounded-md ${
+                  resumeFrom !== null
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-200 hover:bg-gray-300"
+                }`}
+              >
+                Resume from Score
+              </button>
+            </div>
+
+            {/* --- Score editor (finished games and the current game) --- */}
+            {resumeFrom && (
+              <div className="flex flex-col gap-3 text-left sm:text-xl border-t pt-4 mt-6">
+                <div className="grid grid-cols-[1fr_5rem_5rem_2.5rem] gap-2 items-center">
+                  <span />
+                  <span className="font-semibold text-center">Left</span>
+                  <span className="font-semibold text-center">Right</span>
+                  <span />
+
+                  {resumeFrom.completedGames.map((game, index) => (
+                    <div key={index} className="contents">
+                      <span>Game {index + 1}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={game.pointsA}
+                        onChange={(e) =>
+                          setResumeFrom({
+                            ...resumeFrom,
+                            completedGames: resumeFrom.completedGames.map(
+                              (g, i) =>
+                                i === index
+                                  ? { ...g, pointsA: Number(e.target.value) }
+                                  : g
+                            ),
+                          })
+                        }
+                        className="border p-2 rounded-md w-full text-center"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={game.pointsB}
+                        onChange={(e) =>
+                          setResumeFrom({
+                            ...resumeFrom,
+                            completedGames: resumeFrom.completedGames.map(
+                              (g, i) =>
+                                i === index
+                                  ? { ...g, pointsB: Number(e.target.value) }
+                                  : g
+                            ),
+                          })
+                        }
+                        className="border p-2 rounded-md w-full text-center"
+                      />
+                      <button
+                        onClick={() =>
+                          setResumeFrom({
+                            ...resumeFrom,
+                            completedGames: resumeFrom.completedGames.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                        className="rounded-lg hover:bg-gray-200 cursor-pointer p-1"
+                      >
+                        <Image
+                          src={"/close.svg"}
+                          width={24}
+                          height={24}
+                          alt="Remove Game"
+                        />
+                      </button>
+                    </div>
+                  ))}
+
+                  <span>Game {resumeFrom.completedGames.length + 1} (now)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={resumeFrom.pointsA}
+                    onChange={(e) =>
+                      setResumeFrom({
+                        ...resumeFrom,
+                        pointsA: Number(e.target.value),
+                      })
+                    }
+                    className="border p-2 rounded-md w-full text-center"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={resumeFrom.pointsB}
+                    onChange={(e) =>
+                      setResumeFrom({
+                        ...resumeFrom,
+                        pointsB: Number(e.target.value),
+                      })
+                    }
+                    className="border p-2 rounded-md w-full text-center"
+                  />
+                  <span />
+                </div>
+
+                {resumeFrom.completedGames.length < rules.gamesPerMatch - 1 && (
+                  <button
+                    onClick={() =>
+                      setResumeFrom({
+                        ...resumeFrom,
+                        completedGames: [
+                          ...resumeFrom.completedGames,
+                          { pointsA: 0, pointsB: 0 },
+                        ],
+                      })
+                    }
+                    className="bg-gray-200 hover:bg-gray-300 px-4 py-2 rounded-md cursor-pointer"
+                  >
+                    + Add Finished Game
+                  </button>
+                )}
+
+                {!isResumeValid && (
+                  <p className="text-red-500 text-sm sm:text-base">
+                    Every finished game needs a winner, and the current game and
+                    the match must still be open.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-between mt-6 sm:text-2xl">
+              <button
+                onClick={() => setStep("players")}
+                className="bg-gray-300 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-400 cursor-pointer"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => {
+                  if (!isResumeValid) return;
+                  setStep("serve");
+                }}
+                disabled={!isResumeValid}
+                className={`px-6 py-2 rounded-md cursor-pointer ${
+                  isResumeValid
+                    ? "bg-blue-600 text-white hover:bg-blue-700"
+                    : "bg-gray-300 text-gray-500 cursor-not-allowed"
+                }`}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 6: Select First Serving Team */}
         {step === "serve" && (
           <div className="text-center mt-4 ">
             <h3 className="text-lg sm:text-3xl font-semibold mb-4">
-              Select Team to Serve First
+              {resumeFrom
+                ? "Select Team Serving Now"
+                : "Select Team to Serve First"}
             </h3>
             <div className="flex sm:text-xl justify-center gap-6">
               <button
@@ -387,7 +871,7 @@ export default function NewMatchModal({
             </div>
             <div className="flex justify-between mt-6 sm:text-2xl">
               <button
-                onClick={() => setStep("players")}
+                onClick={() => setStep("start")}
                 className="bg-gray-300 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-400 cursor-pointer"
               >
                 Back
@@ -411,19 +895,18 @@ export default function NewMatchModal({
           </div>
         )}
 
-        {/* Step 5: Select Doubles Server/Receiver */}
-        {step === "selectServer" && mode === "ganda" && (
+        {/* Step 7: Select Doubles/Triples Server/Receiver */}
+        {step === "selectServer" && mode !== "single" && (
           <div className="mt-4 text-center">
             <h3 className="text-lg sm:text-3xl font-semibold mb-4">
-              Select Server & Receiver (Doubles)
+              Select Server & Receiver (
+              {mode === "triples" ? "Triples" : "Doubles"})
             </h3>
             <p className="mb-2 sm:text-xl font-bold">
-              First Server ({firstServe === "A" ? "Left" : "Right"} Team)
+              {resumeFrom ? "Server" : "First Server"} (
+              {firstServe === "A" ? "Left" : "Right"} Team)
             </p>
-            {(firstServe === "A"
-              ? [formData.teamA1 || "Team A.1", formData.teamA2 || "Team A.2"]
-              : [formData.teamB1 || "Team B.1", formData.teamB2 || "Team B.2"]
-            ).map((name) => (
+            {teamNames(firstServe === "A" ? "A" : "B").map((name) => (
               <button
                 key={name}
                 onClick={() => setFirstServerName(name)}
@@ -437,12 +920,10 @@ export default function NewMatchModal({
               </button>
             ))}
             <p className="mt-4 sm:text-xl mb-2 font-bold">
-              First Receiver ({firstServe === "A" ? "Right" : "Left"} Team)
+              {resumeFrom ? "Receiver" : "First Receiver"} (
+              {firstServe === "A" ? "Right" : "Left"} Team)
             </p>
-            {(firstServe === "A"
-              ? [formData.teamB1 || "Team B.1", formData.teamB2 || "Team B.2"]
-              : [formData.teamA1 || "Team A.1", formData.teamA2 || "Team A.2"]
-            ).map((name) => (
+            {teamNames(firstServe === "A" ? "B" : "A").map((name) => (
               <button
                 key={name}
                 onClick={() => setFirstReceiverName(name)}
@@ -10,6 +10,9 @@ import { JSX } from "react";
  * @property {string} timer - The formatted match timer (e.g., "00:12:45").
  * @property {string | null} [currentServer] - The name of the player currently serving.
  * @property {string | null} [currentReceiver] - The name of the player currently receiver serve.
+ * @property {"A" | "B"} [leftSide] - The team currently on the left end of the court. Defaults to "A".
+ * @property {"left" | "right" | null} [serviceCourt] - The service court of the next rally's server and receiver.
+ * @property {boolean} [flipCourts] - Shows the L/R court hints mirrored, for an umpire on the other side.
  */
 interface PlayerNameProps {
   players: {
@@ -19,17 +22,23 @@ interface PlayerNameProps {
   timer: string;
   currentServer?: string | null;
   currentReceiver?: string | null;
+  leftSide?: "A" | "B";
+  serviceCourt?: "left" | "right" | null;
+  flipCourts?: boolean;
 }
 
 /**
  * PlayerName Component
  * ---
  * Displays both teams' player names and the match timer in the center.
- * Supports both singles and doubles matches.
+ * Supports singles, doubles and AirBadminton triples matches.
  *
  * Features:
  * - Shows a shuttlecock icon beside the player who is currently serving.
- * - Automatically adjusts text sizes for singles or doubles.
+ * - In singles, shows the service court (L/R) beside the server and receiver.
+ * - Mirrors every L/R hint when `flipCourts` is set.
+ * - Automatically adjusts text sizes for singles, doubles or triples.
+ * - Swaps the left and right halves when the teams change ends.
  * - Uses responsive layout with TailwindCSS for both mobile and desktop.
  *
  * @param {PlayerNameProps} props - Component properties.
@@ -40,203 +49,241 @@ export default function PlayerName({
   timer,
   currentServer,
   currentReceiver,
+  leftSide = "A",
+  serviceCourt = null,
+  flipCourts = false,
 }: PlayerNameProps): JSX.Element {
+  const rightSide = leftSide === "A" ? "B" : "A";
+
   return (
     <div className="flex flex-wrap md:flex-nowrap items-center justify-center sm:gap-2 font-secondary tracking-widest">
-      {/* === TEAM A SECTION === */}
-      <div className="flex bg-player-name w-full h-full md:w-1/2 justify-start items-center sm:mb-2 md:mb-0 sm:ml-20 border-white border-3">
-        {/* Team A logo */}
-        {players.teamA.length === 1 && (
-          <Image
-            src="/logo-white.svg"
-            width={40}
-            height={40}
-            alt="Logo Player A"
-            className="p-1 sm:w-16 sm:h-16"
-          />
-        )}
-        {players.teamA.length === 2 && (
-          <>
-            <div className="flex flex-col justify-center items-center">
-              <Image
-                src="/l.svg"
-                width={20}
-                height={20}
-                alt="L letter"
-                className="p-1 w-6 h-6 sm:w-8 sm:h-8 sm:mb-1"
-              />
-              <div className="h-1 w-full bg-white" />
-              <Image
-                src="/r.svg"
-                width={20}
-                height={20}
-                alt="R letter"
-                className="p-1 w-6 h-6 sm:w-8 sm:h-8 sm:mt-1"
-              />
-            </div>
-          </>
-        )}
-        <div className="bg-white w-1 h-15 sm:h-21" />
-
-        {/* Team A player list */}
-        <div className="flex flex-col justify-center w-full flex-1 h-full">
-          {players.teamA.map((name, index) => (
-            <div key={index} className="flex flex-col justify-">
-              <div className="flex flex-row items-center justify-between p-1">
-                {/* Player name */}
-                <p
-                  className={`font-bold text-white text-right ml-3 ${
-                    players.teamA.length === 2
-                      ? "text-sm md:text-2xl"
-                      : "text-xl md:text-4xl"
-                  }`}
-                >
-                  {name.toUpperCase()}
-                </p>
-
-                {/* Server & Receiver */}
-                <div className="flex flex-row items-center gap-1">
-                  {currentReceiver === name && (
-                    <Image
-                      src="/racket-white.svg"
-                      alt="Receiver Indicator"
-                      width={15}
-                      height={15}
-                      className={`mr-3 ${
-                        players.teamA.length === 2
-                          ? "w-4 h-4 sm:w-6 sm:h-6"
-                          : "w-12 h-12 px-2 sm:px-0"
-                      }`}
-                      priority
-                    />
-                  )}
-                  {currentServer === name && (
-                    <Image
-                      src="/shuttlecock-white.svg"
-                      alt="Serve Indicator"
-                      width={15}
-                      height={15}
-                      className={`mr-3 ${
-                        players.teamA.length === 2
-                          ? "w-4 h-4 sm:w-6 sm:h-6 "
-                          : "w-12 h-12 px-2 sm:px-0"
-                      }`}
-                      priority
-                    />
-                  )}
-                </div>
-              </div>
-
-              {/* Divider between players (for doubles only) */}
-              {index === 0 && players.teamA.length === 2 && (
-                <div className="">
-                  <div className="h-1 w-full bg-white" />
-                </div>
-              )}
-            </div>
-          ))}
-        </div>
-      </div>
+      {/* === LEFT END SECTION === */}
+      <TeamSection
+        side={leftSide}
+        team={leftSide === "A" ? players.teamA : players.teamB}
+        end="left"
+        currentServer={currentServer}
+        currentReceiver={currentReceiver}
+        serviceCourt={serviceCourt}
+        flipCourts={flipCourts}
+      />
 
       {/* === TIMER SECTION === */}
       <div className="text-white text-lg sm:text-2xl font-main sm:px-4 py-1 sm:py-2 text-center w-full md:w-60">
         {timer}
       </div>
 
-      {/* === TEAM B SECTION === */}
-      <div className="flex items-center bg-player-name md:w-1/2 w-full justify-end sm:mt-2 md:mt-0 sm:mr-20 border-white border-3">
-        {/* Team B player list */}
-        <div className="flex flex-col justify-center w-full flex-1 h-full">
-          {players.teamB.map((name, index) => (
-            <div key={index} className="flex flex-col justify-center">
-              <div className="flex flex-row items-center justify-between p-1">
-                {/* Server & Receiver */}
-                <div className="flex flex-row items-center">
-                  {currentReceiver === name && (
-                    <Image
-                      src="/racket-white.svg"
-                      alt="Receiver Indicator"
-                      width={15}
-                      height={15}
-                      className={`ml-3 ${
-                        players.teamB.length === 2
-                          ? "w-4 h-4 sm:w-6 sm:h-6"
-                          : "w-12 h-12 px-2 sm:px-0"
-                      }`}
-                      priority
-                    />
-                  )}
-                  {currentServer === name && (
-                    <Image
-                      src="/shuttlecock-white.svg"
-                      alt="Serve Indicator"
-                      width={15}
-                      height={15}
-                      className={` ml-3 ${
-                        players.teamB.length === 2
-                          ? "w-4 h-4 sm:w-6 sm:h-6"
-                          : "w-12 h-12 px-2 sm:px-0"
-                      }`}
-                      priority
-                    />
-                  )}
-                </div>
-
-                {/* Player name */}
-                <p
-                  className={`font-bold text-white text-right mr-3 ${
-                    players.teamB.length === 2
-                      ? "text-sm md:text-2xl"
-                      : "text-xl md:text-4xl"
-                  }`}
-                >
-                  {name.toUpperCase()}
-                </p>
-              </div>
+      {/* === RIGHT END SECTION === */}
+      <TeamSection
+        side={rightSide}
+        team={rightSide === "A" ? players.teamA : players.teamB}
+        end="right"
+        currentServer={currentServer}
+        currentReceiver={currentReceiver}
+        serviceCourt={serviceCourt}
+        flipCourts={flipCourts}
+      />
+    </div>
+  );
+}
 
-              {/* Divider between players (for doubles only) */}
-              {index === 0 && players.teamB.length === 2 && (
-                <div className="">
-                  <div className="h-1 w-full bg-white" />
-                </div>
-              )}
-            </div>
-          ))}
-        </div>
+/**
+ * Props for the TeamSection component.
+ */
+interface TeamSectionProps {
+  /** The team shown in this section. Determines the L/R court labels. */
+  side: "A" | "B";
+  /** The team's players, in the order stored in the match state. */
+  team: string[];
+  /** The physical end of the court this section is drawn on. */
+  end: "left" | "right";
+  currentServer?: string | null;
+  currentReceiver?: string | null;
+  /** The service court of the next rally (singles shows it beside the names). */
+  serviceCourt: "left" | "right" | null;
+  /** Mirrors the L/R hints. */
+  flipCourts: boolean;
+}
 
-        {/* Divider line & Team B logo */}
-        <div className="bg-white w-1 h-15 sm:h-21" />
-        {players.teamB.length === 1 && (
+/**
+ * The L/R letter asset for a service court, mirrored if `flip` is set.
+ * @internal
+ */
+const courtIcon = (court: "left" | "right", flip: boolean) =>
+  (court === "left") !== flip ? "/l.svg" : "/r.svg";
+
+/**
+ * Renders one team's half of the header: the logo (singles and triples) or
+ * L/R court labels (doubles), a divider, and the player names with
+ * serve/receive icons. Triples has no service courts, so it gets no labels.
+ * The layout is mirrored for the right end. Court labels follow the team,
+ * not the end: Team A is stored as [Left, Right] and Team B as [Right, Left].
+ * In singles the service court is shown beside the server and receiver
+ * instead, since it follows the score rather than the player.
+ * @internal
+ */
+function TeamSection({
+  side,
+  team,
+  end,
+  currentServer,
+  currentReceiver,
+  serviceCourt,
+  flipCourts,
+}: TeamSectionProps) {
+  const isDoubles = team.length === 2;
+  const isTeam = team.length > 1;
+  const courtLabels =
+    side === "A"
+      ? [courtIcon("left", flipCourts), courtIcon("right", flipCourts)]
+      : [courtIcon("right", flipCourts), courtIcon("left", flipCourts)];
+
+  // Team logo (singles) or L/R court labels (doubles)
+  const badge = (
+    <>
+      {!isDoubles && (
+        <Image
+          src="/logo-white.svg"
+          width={40}
+          height={40}
+          alt={`Logo Player ${side}`}
+          className="p-1 sm:w-16 sm:h-16"
+        />
+      )}
+      {isDoubles && (
+        <div className="flex flex-col justify-center items-center">
           <Image
-            src="/logo-white.svg"
-            width={40}
-            height={40}
-            alt="Logo Player B"
-            className="sm:w-16 sm:h-16"
+            src={courtLabels[0]}
+            width={20}
+            height={20}
+            alt={`${courtLabels[0] === "/l.svg" ? "L" : "R"} letter`}
+            className="p-1 w-6 h-6 sm:w-8 sm:h-8 sm:mb-1"
           />
-        )}
-        {players.teamB.length === 2 && (
-          <>
-            <div className="flex flex-col justify-center items-center">
+          <div className="h-1 w-full bg-white" />
+          <Image
+            src={courtLabels[1]}
+            width={20}
+            height={20}
+            alt={`${courtLabels[1] === "/l.svg" ? "L" : "R"} letter`}
+            className="p-1 w-6 h-6 sm:w-8 sm:h-8 sm:mt-1"
+          />
+        </div>
+      )}
+    </>
+  );
+
+  const divider = <div className="bg-white w-1 h-15 sm:h-21" />;
+
+  // Player list
+  const playerList = (
+    <div className="flex flex-col justify-center w-full flex-1 h-full">
+      {team.map((name, index) => {
+        const nameLabel = (
+          <p
+            className={`font-bold text-white text-right ${
+              end === "left" ? "ml-3" : "mr-3"
+            } ${
+              !isTeam
+                ? "text-xl md:text-4xl"
+                : isDoubles
+                  ? "text-sm md:text-2xl"
+                  : "text-xs md:text-xl"
+            }`}
+          >
+            {name.toUpperCase()}
+          </p>
+        );
+        const iconClass = `${end === "left" ? "mr-3" : "ml-3"} ${
+          isTeam ? "w-4 h-4 sm:w-6 sm:h-6" : "w-12 h-12 px-2 sm:px-0"
+        }`;
+
+        // Singles: the service court of the server and receiver
+        const court =
+          !isTeam &&
+          serviceCourt &&
+          (currentServer === name || currentReceiver === name)
+            ? courtIcon(serviceCourt, flipCourts)
+            : null;
+
+        // Server & Receiver
+        const indicators = (
+          <div
+            className={`flex flex-row items-center ${
+              end === "left" ? "gap-1" : ""
+            }`}
+          >
+            {court && (
+              <Image
+                src={court}
+                alt={`Service Court ${court === "/l.svg" ? "L" : "R"}`}
+                width={15}
+                height={15}
+                className="w-8 h-8 sm:w-10 sm:h-10"
+                priority
+              />
+            )}
+            {currentReceiver === name && (
               <Image
-                src="/r.svg"
-                width={20}
-                height={20}
-                alt="R letter"
-                className="p-1 w-6 h-6 sm:w-8 sm:h-8 sm:mb-1"
+                src="/racket-white.svg"
+                alt="Receiver Indicator"
+                width={15}
+                height={15}
+                className={iconClass}
+                priority
               />
-              <div className="h-1 w-full bg-white" />
+            )}
+            {currentServer === name && (
               <Image
-                src="/l.svg"
-                width={20}
-                height={20}
-                alt="L letter"
-                className="p-1 w-6 h-6 sm:w-8 sm:h-8 sm:mt-1"
+                src="/shuttlecock-white.svg"
+                alt="Serve Indicator"
+                width={15}
+                height={15}
+                className={iconClass}
+                priority
               />
+            )}
+          </div>
+        );
+
+        return (
+          <div key={index} className="flex flex-col justify-center">
+            <div className="flex flex-row items-center justify-between p-1">
+              {end === "left" ? (
+                <>
+                  {nameLabel}
+                  {indicators}
+                </>
+              ) : (
+                <>
+                  {indicators}
+                  {nameLabel}
+                </>
+              )}
             </div>
-          </>
-        )}
-      </div>
+
+            {/* Divider between players (for doubles and triples) */}
+            {index < team.length - 1 && (
+              <div className="">
+                <div className="h-1 w-full bg-white" />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return end === "left" ? (
+    <div className="flex bg-player-name w-full h-full md:w-1/2 justify-start items-center sm:mb-2 md:mb-0 sm:ml-20 border-white border-3">
+      {badge}
+      {divider}
+      {playerList}
+    </div>
+  ) : (
+    <div className="flex items-center bg-player-name md:w-1/2 w-full justify-end sm:mt-2 md:mt-0 sm:mr-20 border-white border-3">
+      {playerList}
+      {divider}
+      {badge}
     </div>
   );
 }
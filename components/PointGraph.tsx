@@ -16,6 +16,8 @@
  * @property {string | null} currentReceiver - The name of the player currently receiving.
  * @property {string | null} nextServer - The name of the next player in the serve rotation.
  * @property {number} serveIndex - The current index in the serveOrder array.
+ * @property {number} lets - The number of lets played so far in the game.
+ * @property {number} scoreEdits - The number of manual score edits so far in the game.
  */
 type PointSnapshot = {
   pointsA: number;
@@ -27,6 +29,8 @@ type PointSnapshot = {
   currentReceiver: string | null;
   nextServer: string | null;
   serveIndex: number;
+  lets: number;
+  scoreEdits: number;
 };
 
 /**
@@ -46,7 +50,9 @@ interface PointGraphProps {
  *
  * @description
  * It displays a series of colored blocks, each representing a point won by a team,
- * along with a legend identifying which color belongs to which team.
+ * along with a legend identifying which color belongs to which team. Lets are
+ * drawn as short, neutral gray marks between the points, and manual score
+ * edits as blue marks showing the score before and after.
  * It calculates the point winners by diffing the `pointHistory` array.
  *
  * @param {PointGraphProps} props - The component props.
@@ -54,16 +60,29 @@ interface PointGraphProps {
  */
 export default function PointGraph({ pointHistory, players }: PointGraphProps) {
   if (!pointHistory || pointHistory.length === 0) return null;
-  const pointWinners: ("A" | "B")[] = [];
+  const pointWinners: ("A" | "B" | "LET" | "EDIT")[] = [];
+  /** The "before → after" score of each edit, keyed by its index in `pointWinners`. */
+  const editLabels: Record<number, string> = {};
 
   for (let i = 1; i < pointHistory.length; i++) {
-    if (pointHistory[i].pointsA > pointHistory[i - 1].pointsA) {
+    const prev = pointHistory[i - 1];
+    const cur = pointHistory[i];
+    if (cur.scoreEdits > prev.scoreEdits) {
+      editLabels[pointWinners.length] =
+        `${prev.pointsA}-${prev.pointsB} → ${cur.pointsA}-${cur.pointsB}`;
+      pointWinners.push("EDIT");
+    } else if (pointHistory[i].pointsA > pointHistory[i - 1].pointsA) {
       pointWinners.push("A");
     } else if (pointHistory[i].pointsB > pointHistory[i - 1].pointsB) {
       pointWinners.push("B");
+    } else if (pointHistory[i].lets > pointHistory[i - 1].lets) {
+      pointWinners.push("LET");
     }
   }
 
+  const hasLets = pointWinners.includes("LET");
+  const hasEdits = pointWinners.includes("EDIT");
+
   const teamAName = players.teamA.join(" & ");
   const teamBName = players.teamB.join(" & ");
 
@@ -74,17 +93,31 @@ export default function PointGraph({ pointHistory, players }: PointGraphProps) {
         {pointWinners.length === 0 ? (
           <p className="text-gray-500">No points played to display graph.</p>
         ) : (
-          pointWinners.map((winner, idx) => (
-            <div
-              key={idx}
-              title={`Point ${idx + 1}: ${
-                winner === "A" ? teamAName : teamBName
-              }`}
-              className={`h-4 w-1 grow rounded-sm ${
-                winner === "A" ? "bg-green" : "bg-yellow"
-              }`}
-            />
-          ))
+          pointWinners.map((winner, idx) =>
+            winner === "EDIT" ? (
+              <div
+                key={idx}
+                title={`Score edited: ${editLabels[idx]}`}
+                className="h-4 w-1 self-center rounded-sm bg-blue-500"
+              />
+            ) : winner === "LET" ? (
+              <div
+                key={idx}
+                title={`Rally ${idx + 1}: Let`}
+                className="h-4 w-1 self-center rounded-sm bg-gray-400 scale-y-50"
+              />
+            ) : (
+              <div
+                key={idx}
+                title={`Rally ${idx + 1}: ${
+                  winner === "A" ? teamAName : teamBName
+                }`}
+                className={`h-4 w-1 grow rounded-sm ${
+                  winner === "A" ? "bg-green" : "bg-yellow"
+                }`}
+              />
+            )
+          )
         )}
       </div>
       {/* Graph Legend */}
@@ -93,6 +126,18 @@ export default function PointGraph({ pointHistory, players }: PointGraphProps) {
           <span className="inline-block w-3 h-3 bg-green rounded-full mr-1"></span>
           {teamAName}
         </div>
+        {hasLets && (
+          <div>
+            <span className="inline-block w-3 h-3 bg-gray-400 rounded-full mr-1"></span>
+            Let
+          </div>
+        )}
+        {hasEdits && (
+          <div>
+            <span className="inline-block w-3 h-3 bg-blue-500 rounded-full mr-1"></span>
+            Score edit
+          </div>
+        )}
         <div>
           <span className="inline-block w-3 h-3 bg-yellow rounded-full mr-1"></span>
           {teamBName}
@@ -0,0 +1,85 @@
+"use client";
+
+/**
+ * Props for the ResumeMatchPrompt component.
+ */
+interface ResumeMatchPromptProps {
+  /** The player rosters of the saved match. */
+  players: { teamA: string[]; teamB: string[] };
+  /** The score of the saved match. */
+  pointsA: number;
+  pointsB: number;
+  setsA: number;
+  setsB: number;
+  /** The saved match time, formatted (e.g., "00:23:45"). */
+  time: string;
+  /** Callback function triggered to restore the saved match. */
+  onResume: () => void;
+  /** Callback function triggered to delete the saved match. */
+  onDiscard: () => void;
+}
+
+/**
+ * @summary
+ * A prompt offering to resume a match that was in progress before the page
+ * was reloaded.
+ *
+ * @description
+ * The live match is saved to local storage after every action, so a browser
+ * refresh, a crashed tab or a locked phone loses nothing. On load, the saved
+ * match is shown with its score and match time; resuming restores the match
+ * and its timer exactly, discarding deletes the save.
+ *
+ * @param {ResumeMatchPromptProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered prompt.
+ */
+export default function ResumeMatchPrompt({
+  players,
+  pointsA,
+  pointsB,
+  setsA,
+  setsB,
+  time,
+  onResume,
+  onDiscard,
+}: ResumeMatchPromptProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md text-center space-y-3">
+        <h3 className="text-xl sm:text-3xl font-bold">
+          Resume match in progress?
+        </h3>
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-1 items-center text-left sm:text-lg">
+          <span />
+          <span className="text-gray-600 text-sm">Games</span>
+          <span className="text-gray-600 text-sm">Points</span>
+
+          <span className="font-bold truncate">
+            {players.teamA.join(" & ")}
+          </span>
+          <span className="text-center">{setsA}</span>
+          <span className="text-center">{pointsA}</span>
+
+          <span className="font-bold truncate">
+            {players.teamB.join(" & ")}
+          </span>
+          <span className="text-center">{setsB}</span>
+          <span className="text-center">{pointsB}</span>
+        </div>
+        <p className="text-gray-600">Match time: {time}</p>
+        <button
+          className="bg-blue-600 text-white px-4 py-2 rounded w-full hover:bg-blue-700 transition-colors sm:text-lg cursor-pointer"
+          onClick={onResume}
+        >
+          Resume Match
+        </button>
+        <button
+          className="bg-gray-200 px-4 py-2 rounded w-full hover:bg-gray-300 transition-colors sm:text-lg cursor-pointer"
+          onClick={onDiscard}
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
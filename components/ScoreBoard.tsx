@@ -15,6 +15,12 @@ interface ScoreBoardProps {
   /** Indicates which side this scoreboard represents ("A" or "B"). */
   side: "A" | "B";
 
+  /**
+   * The physical end of the court this scoreboard is drawn on.
+   * Teams swap ends during the match, so this is independent of `side`.
+   */
+  position: "left" | "right";
+
   /** Current number of points for this side. */
   points: number;
 
@@ -36,6 +42,9 @@ interface ScoreBoardProps {
 
   /** Shows a shuttlecock indicator if the player is serving. */
   isServing?: boolean;
+
+  /** The serving hand (1 or 2) under side-out scoring, shown beside the shuttlecock. */
+  serverHand?: 1 | 2 | null;
 }
 
 /**
@@ -46,11 +55,13 @@ interface ScoreBoardProps {
  */
 export default function ScoreBoard({
   side,
+  position,
   points,
   sets,
   onIncrement,
   disabled = false,
   isServing = false,
+  serverHand = null,
 }: ScoreBoardProps) {
   const [isThrottled, setIsThrottled] = useState(false);
 
@@ -84,7 +95,7 @@ export default function ScoreBoard({
       role="button"
       onClick={handleScore}
       className={`relative font-main flex flex-col text-white justify-center items-center ${
-        side === "A"
+        position === "left"
           ? "bg-scoreboard-left  border-white border-t-3 border-l-3 border-r-3 sm:border-3"
           : "bg-scoreboard-right  border-white border-b-3 border-l-3 border-r-3 sm:border-3"
       }
@@ -104,6 +115,18 @@ export default function ScoreBoard({
         </div>
       )}
 
+      {/* === Serving Hand (side-out doubles only) === */}
+      {isServing && serverHand !== null && (
+        <div
+          className="absolute top-5 right-20 sm:right-22 w-10 h-10 flex items-center justify-center bg-indicator rounded-full shadow-md"
+          title={`Hand ${serverHand}`}
+        >
+          <p className="text-lg sm:text-xl text-black font-semibold select-none">
+            {serverHand}
+          </p>
+        </div>
+      )}
+
       {/* === Score Display === */}
       <div className="py-12 sm:py-12 px-12 sm:px-12 ">
         <p className="text-8xl md:text-scoreboard font-bold tracking-wider text-center select-none">
@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import NewMatchModal from "./NewMatchModal";
+import { ResumeScore, RuleSet } from "@/types/match";
+import { describeRuleSet } from "@/utils/ruleSets";
 
 /**
  * @typedef {object} Players
@@ -20,9 +22,10 @@ interface Players {
  *
  * @property {function} onStartMatch - Callback function passed to the `NewMatchModal`.
  * It is triggered when the user completes the match setup wizard.
- * @property {number | null} [presetScoring] - An optional preset scoring system (e.g., 15, 21, 30).
- * This value is displayed on the button and passed to the modal
- * to skip the scoring selection step.
+ * @property {RuleSet | null} [presetRules] - An optional preset rule set (e.g., the 21-point preset).
+ * Its target score is displayed on the button and it is passed to the modal
+ * to skip the scoring selection step. Without it, the button opens the full
+ * preset list and custom-rules editor.
  */
 interface ScoreChoiceProps {
   /**
@@ -32,27 +35,29 @@ interface ScoreChoiceProps {
    * @param {"A" | "B"} firstServe - The side that will serve first.
    * @param {string} firstServerName - The name of the player serving first.
    * @param {string} opponentReceiverName - The name of the player receiving first.
-   * @param {number} scoringSystem - The chosen scoring system.
+   * @param {RuleSet} rules - The chosen rule set.
+   * @param {ResumeScore} [resumeFrom] - The score to resume from, if the match did not start at 0-0.
    */
   onStartMatch: (
     players: Players,
     firstServe: "A" | "B",
     firstServerName: string,
     opponentReceiverName: string,
-    scoringSystem: number
+    rules: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
-  /** An optional preset scoring system (e.g., 15, 21, or 30). */
-  presetScoring?: number | null;
+  /** An optional preset rule set (e.g., the 21-point preset). */
+  presetRules?: RuleSet | null;
 }
 
 /**
  * @summary
- * Renders a large, clickable button that displays a preset scoring option
+ * Renders a large, clickable button that displays a preset rule set
  * and opens the `NewMatchModal` when clicked.
  *
  * @description
  * This component acts as a trigger. It manages the visibility state (`showModal`)
- * for the `NewMatchModal` and passes down the necessary props (`onStartMatch`, `presetScoring`)
+ * for the `NewMatchModal` and passes down the necessary props (`onStartMatch`, `presetRules`)
  * to it.
  *
  * @param {ScoreChoiceProps} props - The component's props.
@@ -60,7 +65,7 @@ interface ScoreChoiceProps {
  */
 export default function ScoreChoiceButton({
   onStartMatch,
-  presetScoring = null,
+  presetRules = null,
 }: ScoreChoiceProps) {
   /**
    * Internal state to control the visibility of the NewMatchModal.
@@ -84,11 +89,21 @@ export default function ScoreChoiceButton({
         onClick={openModal}
         className="group font-secondary bg-primary text-white flex flex-col gap-2 justify-center items-center w-full grow hover:bg-hover transition duration-300 cursor-pointer relative z-0 before:content-[''] before:bg-center before:absolute before:inset-0 before:bg-[url('/shuttlecock-above.svg')] before:bg-no-repeat before:opacity-20 before:z-[-1]"
       >
-        <p className="text-lg md:text-2xl">Score</p>
+        <p className="text-lg md:text-2xl">
+          {presetRules ? "Score" : "Other"}
+        </p>
         <div className="w-px h-6 md:h-12 bg-white"></div>
-        <p className="text-7xl md:text-9xl tracking-wider">{presetScoring}</p>
+        {presetRules ? (
+          <p className="text-7xl md:text-9xl tracking-wider">
+            {presetRules.target}
+          </p>
+        ) : (
+          <p className="text-3xl md:text-5xl tracking-wider text-center">
+            MORE
+          </p>
+        )}
         <p className="font-secondary text-right text-xs md:text-sm absolute tracking-wider bottom-3 right-3">
-          *Max Point {presetScoring === 15 ? 21 : 30}
+          {presetRules ? `*${describeRuleSet(presetRules)}` : "*Formats & Custom"}
         </p>
       </button>
 
@@ -97,7 +112,7 @@ export default function ScoreChoiceButton({
         show={showModal}
         onClose={() => setShowModal(false)}
         onStartMatch={onStartMatch}
-        presetScoring={presetScoring}
+        presetRules={presetRules}
       />
     </div>
   );
@@ -0,0 +1,217 @@
+"use client";
+
+import { ArchivedMatch, CardColor } from "@/types/match";
+import { describeOutcome } from "@/utils/matchOutcome";
+import { createScoresheet } from "@/utils/scoresheet";
+
+/**
+ * Props for the Scoresheet component.
+ */
+interface ScoresheetProps {
+  match: ArchivedMatch;
+  /** True if the match is still being played, rather than abandoned. */
+  inProgress?: boolean;
+}
+
+/**
+ * The number of rally columns on each line of a game, so that a line fits the
+ * width of an A4 landscape page (only used in this component)
+ */
+const COLUMNS_PER_LINE = 34;
+
+/**
+ * The label of each card colour (only used in this component)
+ */
+const CARD_LABELS: Record<CardColor, string> = {
+  YELLOW: "Yellow",
+  RED: "Red",
+  BLACK: "Black",
+};
+
+/**
+ * Helper function to format duration (only used in this component)
+ */
+const formatDuration = (seconds: number) => {
+  const hrs = String(Math.floor(seconds / 3600)).padStart(2, "0");
+  const mins = String(Math.floor((seconds % 3600) / 60)).padStart(2, "0");
+  return `${hrs}:${mins}`;
+};
+
+/**
+ * @summary
+ * A match laid out as the BWF umpire scoresheet, for printing.
+ *
+ * @description
+ * The header holds the players, date, scoring format, the result and duration
+ * of each game and how the match ended. Each game follows as a grid with a
+ * row per player and a column per rally (see `utils/scoresheet.ts`): the
+ * running score is written in the row of the player who serves next. Long
+ * games wrap onto further lines of `COLUMNS_PER_LINE` columns, and the
+ * misconduct cards are listed at the end. A match still being played shows
+ * "In progress" as its result, and its current game as not finished.
+ *
+ * @param {ScoresheetProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered scoresheet.
+ */
+export default function Scoresheet({ match, inProgress }: ScoresheetProps) {
+  const { players, rules, cards } = match;
+  const teamAName = players.teamA.join(" & ");
+  const teamBName = players.teamB.join(" & ");
+  const games = createScoresheet(match.matchHistory, players);
+  const totalDuration = match.matchHistory.reduce(
+    (acc, game) => acc + game.duration,
+    0
+  );
+
+  const result = !match.finished
+    ? inProgress
+      ? "In progress"
+      : "Abandoned"
+    : describeOutcome(
+        match.outcome,
+        match.matchWinner === "A" ? teamBName : teamAName
+      ) ?? `${match.matchWinner === "A" ? teamAName : teamBName} won`;
+
+  return (
+    <div className="w-full max-w-[281mm] bg-white text-black text-[9pt] leading-tight">
+      {/* Header */}
+      <div className="flex justify-between items-end border-b-2 border-black pb-1 mb-2">
+        <h1 className="text-[14pt] font-bold uppercase tracking-wide">
+          Scoresheet
+        </h1>
+        <p>
+          {new Date(match.archivedAt).toLocaleDateString()} · {rules.name}
+        </p>
+      </div>
+
+      <table className="w-full border-collapse mb-3">
+        <thead>
+          <tr>
+            <th className="border border-black px-1 text-left">Side</th>
+            <th className="border border-black px-1 text-left">Players</th>
+            {games.map((game) => (
+              <th key={game.gameNumber} className="border border-black px-1">
+                Game {game.gameNumber}
+              </th>
+            ))}
+            <th className="border border-black px-1">Games</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(["A", "B"] as const).map((side) => (
+            <tr key={side}>
+              <td className="border border-black px-1 font-bold">{side}</td>
+              <td className="border border-black px-1">
+                {side === "A" ? teamAName : teamBName}
+              </td>
+              {games.map((game) => (
+                <td
+                  key={game.gameNumber}
+                  className={`border border-black px-1 text-center ${
+                    game.winnerSide === side ? "font-bold" : ""
+                  }`}
+                >
+                  {side === "A" ? game.pointsA : game.pointsB}
+                </td>
+              ))}
+              <td className="border border-black px-1 text-center font-bold">
+                {side === "A" ? match.setsA : match.setsB}
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="border border-black px-1" colSpan={2}>
+              Duration (total {formatDuration(totalDuration)})
+            </td>
+            {games.map((game) => (
+              <td
+                key={game.gameNumber}
+                className="border border-black px-1 text-center"
+              >
+                {formatDuration(game.duration)}
+              </td>
+            ))}
+            <td className="border border-black px-1 text-center">{result}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* One grid per game */}
+      {games.map((game) => {
+        const columnCount = game.rows[0]?.cells.length ?? 0;
+        const lineStarts = Array.from(
+          { length: Math.ceil(columnCount / COLUMNS_PER_LINE) },
+          (_, idx) => idx * COLUMNS_PER_LINE
+        );
+
+        return (
+          <section key={game.gameNumber} className="mb-3 break-inside-avoid">
+            <h2 className="font-bold mb-0.5">
+              Game {game.gameNumber}: {game.pointsA}-{game.pointsB}
+              {game.incomplete && " (not finished)"}
+            </h2>
+            {game.resumed || columnCount === 0 ? (
+              <p className="italic">
+                No rallies recorded: only the final score was entered.
+              </p>
+            ) : (
+              lineStarts.map((start) => (
+                <table
+                  key={start}
+                  className="w-full table-fixed border-collapse mb-1"
+                >
+                  <colgroup>
+                    <col className="w-[34mm]" />
+                    {Array.from({ length: COLUMNS_PER_LINE }, (_, idx) => (
+                      <col key={idx} />
+                    ))}
+                  </colgroup>
+                  <tbody>
+                    {game.rows.map((row, rowIdx) => (
+                      <tr
+                        key={row.name}
+                        className={
+                          // A thicker line between the two sides
+                          rowIdx === players.teamA.length
+                            ? "border-t-2 border-black"
+                            : ""
+                        }
+                      >
+                        <td className="border border-black px-1 truncate">
+                          {row.side} · {row.name}
+                        </td>
+                        {Array.from({ length: COLUMNS_PER_LINE }, (_, idx) => (
+                          <td
+                            key={idx}
+                            className="border border-black text-center h-[5mm]"
+                          >
+                            {row.cells[start + idx] ?? ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ))
+            )}
+          </section>
+        );
+      })}
+
+      {/* Misconduct cards */}
+      {cards.length > 0 && (
+        <section className="break-inside-avoid">
+          <h2 className="font-bold mb-0.5">Cards</h2>
+          <ul>
+            {cards.map((card, idx) => (
+              <li key={idx}>
+                {CARD_LABELS[card.color]}: {card.player} (Game{" "}
+                {card.gameNumber}, {card.pointsA}-{card.pointsB})
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
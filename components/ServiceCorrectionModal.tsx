@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Players } from "@/types/match";
+
+/**
+ * Props for the ServiceCorrectionModal component.
+ */
+interface ServiceCorrectionModalProps {
+  /** Controls the visibility of the modal. If false, the component returns null. */
+  show: boolean;
+  /** The player rosters for both teams. */
+  players: Players;
+  /** The server and receiver currently recorded, used as the initial selection. */
+  currentServer: string | null;
+  currentReceiver: string | null;
+  /** Callback function triggered when the correction is confirmed. */
+  onCorrect: (serverName: string, receiverName: string) => void;
+  /** Callback function triggered when the user closes the modal. */
+  onClose: () => void;
+}
+
+/**
+ * @summary
+ * A modal for correcting a service court error (BWF Law 12).
+ *
+ * @description
+ * The umpire picks the player who should be serving and the player who
+ * should be receiving. The score is kept; the reducer then places every
+ * player in the service court required by the score and rebuilds the serve
+ * rotation from there. The receiver list only offers the opposing team.
+ *
+ * @param {ServiceCorrectionModalProps} props - The props for the component.
+ * @returns {JSX.Element | null} The rendered modal or `null` if `show` is false.
+ */
+export default function ServiceCorrectionModal({
+  show,
+  players,
+  currentServer,
+  currentReceiver,
+  onCorrect,
+  onClose,
+}: ServiceCorrectionModalProps) {
+  const [selectedServer, setSelectedServer] = useState<string | null>(null);
+  const [selectedReceiver, setSelectedReceiver] = useState<string | null>(
+    null
+  );
+
+  if (!show) return null;
+
+  const allPlayers = [...players.teamA, ...players.teamB];
+  const server = selectedServer ?? currentServer ?? allPlayers[0] ?? "";
+  const receivingTeam = players.teamA.includes(server)
+    ? players.teamB
+    : players.teamA;
+  // Keep the receiver on the opposing team when the server changes
+  const preferredReceiver = selectedReceiver ?? currentReceiver;
+  const receiver =
+    preferredReceiver && receivingTeam.includes(preferredReceiver)
+      ? preferredReceiver
+      : receivingTeam[0];
+
+  const handleClose = () => {
+    setSelectedServer(null);
+    setSelectedReceiver(null);
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    onCorrect(server, receiver);
+    setSelectedServer(null);
+    setSelectedReceiver(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-50 p-4">
+      <div className="relative bg-white rounded-xl p-6 w-full max-w-md space-y-4">
+        {/* Close Button */}
+        <button
+          onClick={handleClose}
+          className="absolute top-2 right-2 rounded-lg hover:bg-gray-200 cursor-pointer p-1"
+        >
+          <Image src={"/close.svg"} width={30} height={30} alt="Close Button" />
+        </button>
+
+        <h3 className="text-xl sm:text-3xl font-bold text-center">
+          Correct Service
+        </h3>
+        <p className="text-gray-600 text-sm sm:text-base text-center">
+          The score is kept. Players are moved to the service courts required
+          by the score.
+        </p>
+
+        <div>
+          <label className="block mb-1 font-semibold">Server:</label>
+          <select
+            className="border p-2 rounded w-full"
+            value={server}
+            onChange={(e) => setSelectedServer(e.target.value)}
+          >
+            {allPlayers.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-1 font-semibold">Receiver:</label>
+          <select
+            className="border p-2 rounded w-full"
+            value={receiver}
+            onChange={(e) => setSelectedReceiver(e.target.value)}
+          >
+            {receivingTeam.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          className="bg-blue-600 text-white px-4 py-2 rounded w-full hover:bg-blue-700 transition-colors sm:text-lg cursor-pointer"
+          onClick={handleConfirm}
+        >
+          Apply Correction
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
+import { IntervalRecord, MatchOutcome, RuleSet } from "@/types/match";
 import GameStatsView from "./GameStatsView";
+import MatchSummary from "./MatchSummary";
 
 /**
  * @typedef {object} PointSnapshot
@@ -28,6 +30,8 @@ type PointSnapshot = {
   currentReceiver: string | null;
   nextServer: string | null;
   serveIndex: number;
+  lets: number;
+  scoreEdits: number;
 };
 
 /**
@@ -42,6 +46,7 @@ type PointSnapshot = {
  * @property {"A" | "B" | null} winnerSide - The winner of the game. 'null' if in progress.
  * @property {number} duration - The duration of the game in seconds.
  * @property {PointSnapshot[]} pointHistory - An array of all point snapshots recorded during this game.
+ * @property {IntervalRecord[]} intervals - The intervals taken during and right after this game.
  */
 type GameSnapshot = {
   gameNumber: number;
@@ -50,6 +55,9 @@ type GameSnapshot = {
   winnerSide: "A" | "B" | null;
   duration: number;
   pointHistory: PointSnapshot[];
+  intervals: IntervalRecord[];
+  incomplete: boolean;
+  resumed: boolean;
 };
 // ---
 
@@ -60,12 +68,26 @@ interface SetFinishModalProps {
   show: boolean;
   gameData: GameSnapshot | null;
   players: { teamA: string[]; teamB: string[] };
-  scoringSystem: number;
+  rules: RuleSet;
   currentServer: string | null;
   onSetCurrentServer: (server: string) => void;
   currentReceiver: string | null;
   onSetCurrentReceiver: (receiver: string) => void;
   onContinue: () => void;
+  /** The side that won the match. 'null' while the match is still in progress. */
+  matchWinner: "A" | "B" | null;
+  /** How the match was decided. 'null' while the match is still in progress. */
+  outcome: MatchOutcome | null;
+  /** All completed games, listed in the final match summary. */
+  matchHistory: GameSnapshot[];
+  setsA: number;
+  setsB: number;
+  /** Closes the final match summary. */
+  onClose: () => void;
+  /** Reverts the game-winning rally and reopens the game. */
+  onUndo: () => void;
+  /** The printable scoresheet of the finished match, linked from the summary. */
+  scoresheetHref: string | null;
 }
 
 /**
@@ -76,11 +98,17 @@ interface SetFinishModalProps {
  * This component displays the final statistics for the completed game using the
  * `GameStatsView` component.
  *
- * For doubles matches (`isDoubles`), it also renders dropdown menus to allow
+ * For doubles and triples matches (`hasTeams`), it also renders dropdown menus to allow
  * the user to select the starting server (from the winning team) and receiver
  * (from the losing team) for the next set. These dropdowns are
  * controlled components, with their state managed by the parent `Page`.
  *
+ * Once the completed game also decides the match (`matchWinner` is set), the
+ * next-set prompt is replaced by the final `MatchSummary` (also shown, with no
+ * game data, when the match is ended early). Both views offer an undo button
+ * that reopens the game if the winning rally (or the early end) was entered
+ * by mistake.
+ *
  * @param {SetFinishModalProps} props - The props for the component.
  * @returns {JSX.Element | null} The rendered modal or `null` if `show` is false.
  */
@@ -88,17 +116,55 @@ export default function SetFinishModal({
   show,
   gameData,
   players,
-  scoringSystem,
+  rules,
   currentServer,
   onSetCurrentServer,
   currentReceiver,
   onSetCurrentReceiver,
   onContinue,
+  matchWinner,
+  outcome,
+  matchHistory,
+  setsA,
+  setsB,
+  onClose,
+  onUndo,
+  scoresheetHref,
 }: SetFinishModalProps) {
-  // Do not render if the modal is hidden or has no data
-  if (!show || !gameData) return null;
+  // Do not render if the modal is hidden
+  if (!show) return null;
+
+  // The match has been decided: show the final summary instead of the next-set prompt
+  if (matchWinner) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 font-main text-black flex items-center justify-center z-50 p-4">
+        <div className="bg-white rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+          <MatchSummary
+            matchWinner={matchWinner}
+            outcome={outcome}
+            matchHistory={matchHistory}
+            players={players}
+            setsA={setsA}
+            setsB={setsB}
+            gamesPerMatch={rules.gamesPerMatch}
+            onClose={onClose}
+            scoresheetHref={scoresheetHref}
+          />
+          <UndoLastPointButton
+            onUndo={onUndo}
+            label={
+              outcome === "COMPLETED" ? "Undo Last Point" : "Undo End of Match"
+            }
+          />
+        </div>
+      </div>
+    );
+  }
+
+  // The next-set prompt needs the completed game
+  if (!gameData) return null;
 
-  const isDoubles = players.teamA.length > 1 || players.teamB.length > 1;
+  const hasTeams = players.teamA.length > 1 || players.teamB.length > 1;
   const winnerTeam =
     gameData.winnerSide === "A" ? players.teamA : players.teamB;
   const loserTeam = gameData.winnerSide === "A" ? players.teamB : players.teamA;
@@ -110,11 +176,11 @@ export default function SetFinishModal({
         <GameStatsView
           game={gameData}
           players={players}
-          scoringSystem={scoringSystem}
+          rules={rules}
         />
 
-        {/* 2. Display server/receiver selection (for doubles only) */}
-        {isDoubles && (
+        {/* 2. Display server/receiver selection (for doubles and triples) */}
+        {hasTeams && (
           <div className="mt-4 pt-4 border-t space-y-2">
             <div>
               <label className="block mb-1 font-semibold">
@@ -158,7 +224,29 @@ export default function SetFinishModal({
         >
           Continue to Next Set
         </button>
+        <UndoLastPointButton onUndo={onUndo} />
       </div>
     </div>
   );
+}
+
+/**
+ * A secondary button that undoes the game-winning rally (or the early end of the match).
+ * @internal
+ */
+function UndoLastPointButton({
+  onUndo,
+  label = "Undo Last Point",
+}: {
+  onUndo: () => void;
+  label?: string;
+}) {
+  return (
+    <button
+      className="mt-2 bg-gray-200 text-gray-800 px-4 py-2 rounded w-full hover:bg-gray-300 transition-colors sm:text-lg cursor-pointer"
+      onClick={onUndo}
+    >
+      {label}
+    </button>
+  );
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+"use client";
+
+import { SettingOffer } from "@/types/match";
+
+/**
+ * Props for the SettingPrompt component.
+ */
+interface SettingPromptProps {
+  /** The pending setting offer. */
+  offer: SettingOffer;
+  /** The normal game target (e.g., 15). */
+  target: number;
+  /** The player names of the side making the choice. */
+  teamName: string;
+  /** Callback function triggered with the side's choice. */
+  onChoose: (setGame: boolean) => void;
+}
+
+/**
+ * @summary
+ * A prompt asking a side whether to "set" a tied side-out game.
+ *
+ * @description
+ * Shown under side-out scoring when the score is tied just below the target
+ * (13-all or 14-all in a 15-point game). The side that reached the score
+ * first either sets the game to a higher target or plays on to the normal
+ * one. Rallies are ignored until the choice is made.
+ *
+ * @param {SettingPromptProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered prompt.
+ */
+export default function SettingPrompt({
+  offer,
+  target,
+  teamName,
+  onChoose,
+}: SettingPromptProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 font-main text-black flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md text-center space-y-3">
+        <h3 className="text-xl sm:text-3xl font-bold">
+          Setting at {offer.tiedAt}-All
+        </h3>
+        <p className="text-gray-600 sm:text-lg">
+          <span className="font-bold">{teamName}</span> reached {offer.tiedAt}{" "}
+          first and chooses how the game ends.
+        </p>
+        <button
+          className="bg-blue-600 text-white px-4 py-2 rounded w-full hover:bg-blue-700 transition-colors sm:text-lg cursor-pointer"
+          onClick={() => onChoose(true)}
+        >
+          Set to {offer.setTo}
+        </button>
+        <button
+          className="bg-gray-200 px-4 py-2 rounded w-full hover:bg-gray-300 transition-colors sm:text-lg cursor-pointer"
+          onClick={() => onChoose(false)}
+        >
+          Play to {target}
+        </button>
+      </div>
+    </div>
+  );
+}
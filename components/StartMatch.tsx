@@ -5,6 +5,8 @@
  */
 import ScoreChoiceButton from "@/components/ScoreChoice"; // adjust path if needed
 import Image from "next/image";
+import { ResumeScore, RuleSet } from "@/types/match";
+import { getQuickStartRuleSets } from "@/utils/ruleSets";
 
 interface StartMatchSectionProps {
   /**
@@ -15,7 +17,8 @@ interface StartMatchSectionProps {
     firstServe: "A" | "B",
     firstServerName: string,
     opponentServerName: string,
-    scoringSystemParam?: number
+    rulesParam?: RuleSet,
+    resumeFrom?: ResumeScore
   ) => void;
 }
 
@@ -50,17 +53,20 @@ export default function StartMatchSection({
             SCORE
           </h2>
           <p className="text-base md:text-xl">
-            Set the winning score for each set: 15, 21, or 30 points.
+            Pick a winning score for each set, or choose another format and
+            custom rules.
           </p>
         </div>
         <div className="font-main flex-row justify-between gap-4 w-full md:gap-12 md:w-2/3 h-full flex ">
-          {[15, 21, 30].map((num) => (
+          {getQuickStartRuleSets().map((rules) => (
             <ScoreChoiceButton
-              key={num}
+              key={rules.id}
               onStartMatch={onStartMatch}
-              presetScoring={num}
+              presetRules={rules}
             />
           ))}
+          {/* All other presets and the custom-rules editor */}
+          <ScoreChoiceButton onStartMatch={onStartMatch} />
         </div>
       </div>
     </div>
@@ -0,0 +1,240 @@
+/**
+ * The public API of the scoring engine.
+ *
+ * The engine is pure and has no dependency on React or Next.js, so the same
+ * rules can run in the web app (wrapped by `useMatchLogic`), in a Node script
+ * or in a kiosk app. A match is an append-only event log (`MatchLog`); every
+ * function here takes a log or a state and returns a new value, never
+ * mutating its input. Time is always passed in (seconds of match time), as
+ * the engine keeps no clock of its own. Its modules (and the rule helpers in
+ * `utils/` it uses) import each other by relative path, so a script can load
+ * the engine without the app's `@/` path alias.
+ *
+ * @example
+ * let log = createMatch({ newPlayers, firstServe: "A", firstServerName, opponentReceiverName });
+ * log = applyEvent(log, { type: "INCREMENT", payload: { side: "A", time: 12 } });
+ * const state = getMatchState(log);
+ */
+
+import {
+  EditedScore,
+  GameSnapshot,
+  MatchEvent,
+  MatchLog,
+  MatchState,
+} from "../types/match";
+import { createSnapshot, matchReducer, replayMatch } from "./matchReducer";
+import { initialLog, matchLogReducer } from "./matchLog";
+import { isPlayableScore } from "../utils/ruleSets";
+import { getServiceCourt, ServiceCourt } from "../utils/courtModel";
+import { isTriples } from "../utils/teamFormat";
+
+export type {
+  EditedScore,
+  GameSnapshot,
+  MatchEvent,
+  MatchLog,
+  MatchState,
+  Players,
+  ResumeScore,
+  RuleSet,
+} from "../types/match";
+export { replayMatch } from "./matchReducer";
+export { initialLog } from "./matchLog";
+export type { ServiceCourt } from "../utils/courtModel";
+export {
+  createDiagnosticReport,
+  suggestServiceFix,
+  validateMatchState,
+} from "./validateMatchState";
+export type { DiagnosticReport, StateIssue } from "./validateMatchState";
+
+/**
+ * @summary The configuration of a new match (the 'START_MATCH' payload, without the start time).
+ */
+export type MatchSetup = Omit<
+  Extract<MatchEvent, { type: "START_MATCH" }>["payload"],
+  "startTime"
+>;
+
+/**
+ * @summary The server and receiver who start the next game.
+ */
+export type NextGamePlayers = {
+  nextServerName: string;
+  nextReceiverName: string;
+};
+
+// --- Creating and recording ---
+
+/**
+ * @summary Creates the log of a new match.
+ * @param {MatchSetup} setup - The players, first server and receiver, rules and optional resume score.
+ * @param {number} [startTime=0] - The match time the match starts at.
+ * @returns {MatchLog} A log holding only the 'START_MATCH' event.
+ */
+export function createMatch(setup: MatchSetup, startTime = 0): MatchLog {
+  return applyEvent(initialLog, {
+    type: "START_MATCH",
+    payload: { ...setup, startTime },
+  });
+}
+
+/**
+ * @summary Records an event in the log.
+ * @description A 'START_MATCH' event starts a new log; any new undo step
+ * (a rally, a card, a correction...) clears the redo stack. An event that
+ * does not apply in the current state (e.g. a rally while the end of a game
+ * awaits confirmation, or any scoring once the match is over) is rejected,
+ * so it never becomes an empty undo step.
+ * @param {MatchLog} log - The current log.
+ * @param {MatchEvent} event - The event to record.
+ * @returns {MatchLog} The new log (the same log if the event was rejected).
+ */
+export function applyEvent(log: MatchLog, event: MatchEvent): MatchLog {
+  // The reducer returns the state it was given for an event it rejects
+  const state = getMatchState(log);
+  if (matchReducer(state, event) === state) return log;
+  return matchLogReducer(log, { type: "RECORD", payload: event });
+}
+
+/**
+ * @summary Removes the last undo step (e.g. a rally) and everything recorded after it.
+ * @param {MatchLog} log - The current log.
+ * @returns {MatchLog} The new log (the same log if there is nothing to undo).
+ */
+export function undoStep(log: MatchLog): MatchLog {
+  return matchLogReducer(log, { type: "UNDO" });
+}
+
+/**
+ * @summary Re-applies the most recently undone step.
+ * @param {MatchLog} log - The current log.
+ * @returns {MatchLog} The new log (the same log if there is nothing to redo).
+ */
+export function redoStep(log: MatchLog): MatchLog {
+  return matchLogReducer(log, { type: "REDO" });
+}
+
+// --- Querying ---
+
+/**
+ * @summary Derives the match state from a log.
+ * @param {MatchLog} log - The match log.
+ * @returns {MatchState} The state after the last recorded event.
+ */
+export function getMatchState(log: MatchLog): MatchState {
+  return replayMatch(log.events);
+}
+
+/**
+ * @summary Whether a match has been started (player names are set).
+ * @param {MatchState} state - The match state.
+ * @returns {boolean} `true` once 'START_MATCH' has been applied.
+ */
+export const isMatchStarted = (state: MatchState) =>
+  state.players.teamA.length > 0;
+
+/**
+ * @summary Whether the first rally has been played (no walkover after this).
+ * @param {MatchState} state - The match state.
+ * @returns {boolean} `true` once a rally has been recorded in any game.
+ */
+export const hasPlayStarted = (state: MatchState) =>
+  state.matchHistory.length > 0 || state.currentSetPointHistory.length > 0;
+
+/**
+ * @summary Whether play can continue from a score entered by hand.
+ * @param {MatchState} state - The match state (for its rules).
+ * @param {EditedScore} score - The points and games entered.
+ * @returns {boolean} `true` if neither the game nor the match would be over.
+ */
+export const isValidEditedScore = (state: MatchState, score: EditedScore) =>
+  isPlayableScore(state.rules, score);
+
+/**
+ * @summary Builds a `GameSnapshot` for the game currently being played.
+ * @description The point history is the current game's history plus a
+ * snapshot of the latest state, so live stats and graphs include the last
+ * rally. There is no game in progress before its first rally.
+ * @param {MatchState} state - The match state.
+ * @param {number} time - The current match time.
+ * @returns {GameSnapshot | null} The game in progress, or `null`.
+ */
+export function getInProgressGame(
+  state: MatchState,
+  time: number
+): GameSnapshot | null {
+  if (!isMatchStarted(state) || state.currentSetPointHistory.length === 0) {
+    return null;
+  }
+
+  return {
+    gameNumber: state.matchHistory.length + 1,
+    pointsA: state.pointsA,
+    pointsB: state.pointsB,
+    winnerSide: null,
+    startTime: state.currentSetStartTime,
+    duration: time - state.currentSetStartTime,
+    pointHistory: [...state.currentSetPointHistory, createSnapshot(state)],
+    intervals: state.currentSetIntervals,
+    incomplete: false,
+    resumed: false,
+  };
+}
+
+/**
+ * @summary Gets every finished game plus the game in progress, if any.
+ * @param {MatchState} state - The match state.
+ * @param {number} time - The current match time.
+ * @returns {GameSnapshot[]} The games in order.
+ */
+export function getGameHistory(
+  state: MatchState,
+  time: number
+): GameSnapshot[] {
+  const inProgressGame = getInProgressGame(state, time);
+  return inProgressGame
+    ? [...state.matchHistory, inProgressGame]
+    : state.matchHistory;
+}
+
+/**
+ * @summary Gets the server and receiver to start the next game with.
+ * @description The players chosen between games ('SET_NEXT_SERVER' and
+ * 'SET_NEXT_RECEIVER'), falling back to the first player of the game winner
+ * and of the loser.
+ * @param {MatchState} state - The match state.
+ * @returns {NextGamePlayers | null} The players, or `null` if no game has just finished.
+ */
+export function getNextGamePlayers(state: MatchState): NextGamePlayers | null {
+  if (!state.setFinishData) return null;
+
+  const winnerSide = state.setFinishData.winnerSide;
+  const winnerTeam =
+    winnerSide === "A" ? state.players.teamA : state.players.teamB;
+  const loserTeam =
+    winnerSide === "A" ? state.players.teamB : state.players.teamA;
+
+  return {
+    nextServerName: state.currentServer || winnerTeam[0],
+    nextReceiverName: state.currentReceiver || loserTeam[0],
+  };
+}
+
+/**
+ * @summary Gets the service court the next rally is served from.
+ * @description Right on the serving side's even score, left on an odd one.
+ * The receiver stands in the court of the same name, diagonally opposite, so
+ * the one court applies to both. Triples has no service courts.
+ * @param {MatchState} state - The match state.
+ * @returns {ServiceCourt | null} The court, or `null` with no server (or in triples).
+ */
+export function getCurrentServiceCourt(
+  state: MatchState
+): ServiceCourt | null {
+  if (!state.serverSide || isTriples(state.players)) return null;
+  return getServiceCourt(
+    state.serverSide === "A" ? state.pointsA : state.pointsB
+  );
+}
@@ -0,0 +1,102 @@
+import { MatchEvent, MatchLog, MatchLogAction } from "../types/match";
+
+/**
+ * @summary The empty log, before any match has been started.
+ * @type {MatchLog}
+ */
+export const initialLog: MatchLog = {
+  events: [],
+  redoStack: [],
+};
+
+/**
+ * @summary Whether an event starts a new undo step: a rally (a point won or
+ * a let), a misconduct card, a service correction, a score edit or the match
+ * being ended early.
+ * @internal
+ */
+const startsUndoStep = (event: MatchEvent) =>
+  event.type === "INCREMENT" ||
+  event.type === "LET" ||
+  event.type === "ISSUE_CARD" ||
+  event.type === "CORRECT_SERVICE" ||
+  event.type === "EDIT_SCORE" ||
+  event.type === "END_MATCH";
+
+/**
+ * @summary Finds the index of the last undo step in the log.
+ * @param {MatchEvent[]} events - The recorded events.
+ * @returns {number} The index of the last event that starts an undo step, or -1 if there is none.
+ * @internal
+ */
+function findLastStepIndex(events: MatchEvent[]): number {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (startsUndoStep(events[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * @summary
+ * The reducer that manages the append-only match event log.
+ *
+ * @description
+ * Events are only ever appended; "Undo" and "Redo" move whole groups of
+ * events between the log and the redo stack. A group starts at an undo step
+ * (a rally, a misconduct card, a service correction, a score edit or the match
+ * being ended early) and holds everything recorded after it (interval ends, next-set
+ * choices, the next game's start), so undoing at the start of a game steps back into the
+ * previous one. The match state itself is derived with `replayMatch`.
+ *
+ * @param {MatchLog} log - The previous log.
+ * @param {MatchLogAction} action - The action being dispatched.
+ * @returns {MatchLog} The new, updated log.
+ */
+export function matchLogReducer(
+  log: MatchLog,
+  action: MatchLogAction
+): MatchLog {
+  switch (action.type) {
+    // --- ACTION: RECORD ---
+    // Appends an event. A new match starts a new log.
+    case "RECORD": {
+      const event = action.payload;
+
+      if (event.type === "START_MATCH") {
+        return { events: [event], redoStack: [] };
+      }
+
+      return {
+        events: [...log.events, event],
+        // A new undo step invalidates anything undone
+        redoStack: startsUndoStep(event) ? [] : log.redoStack,
+      };
+    }
+
+    // --- ACTION: UNDO ---
+    // Removes the last step (e.g. a rally) and everything recorded after it.
+    case "UNDO": {
+      const lastStepIndex = findLastStepIndex(log.events);
+      if (lastStepIndex === -1) return log;
+
+      return {
+        events: log.events.slice(0, lastStepIndex),
+        redoStack: [...log.redoStack, log.events.slice(lastStepIndex)],
+      };
+    }
+
+    // --- ACTION: REDO ---
+    // Re-appends the most recently undone group of events.
+    case "REDO": {
+      if (log.redoStack.length === 0) return log;
+
+      return {
+        events: [...log.events, ...log.redoStack[log.redoStack.length - 1]],
+        redoStack: log.redoStack.slice(0, -1),
+      };
+    }
+
+    default:
+      return log;
+  }
+}
@@ -0,0 +1,1281 @@
+import {
+  MatchState,
+  MatchEvent,
+  GameSnapshot,
+  MatchOutcome,
+  Players,
+  PointSnapshot,
+  ResumeScore,
+  RuleSet,
+  SettingOffer,
+} from "../types/match";
+import {
+  applyRally,
+  getServerAndReceiver,
+  getServiceCourt,
+  placeForService,
+  toCourts,
+  toPlayers,
+} from "../utils/courtModel";
+import { getGamesToWin } from "../utils/getGamesToWin";
+import {
+  DEFAULT_RULE_SET,
+  getGameWinner,
+  getHandicap,
+  getMidGamePoint,
+  getSettingTarget,
+  isPlayableScore,
+  isResumableScore,
+  isSideOut,
+} from "../utils/ruleSets";
+import { startInterval } from "../utils/intervals";
+import {
+  getNextInRotation,
+  getTriplesServeOrder,
+  isTriples,
+} from "../utils/teamFormat";
+
+/**
+ * @summary The default, clean state for a new match.
+ * @type {MatchState}
+ */
+export const initialState: MatchState = {
+  pointsA: 0,
+  setsA: 0,
+  pointsB: 0,
+  setsB: 0,
+  players: { teamA: [], teamB: [] },
+  currentSetPointHistory: [],
+  serverSide: null,
+  currentServer: null,
+  currentReceiver: null,
+  nextServer: null,
+  serveOrder: [],
+  serveIndex: 0,
+  status: "IN_PROGRESS",
+  matchWinner: null,
+  outcome: null,
+  cards: [],
+  serviceCorrections: [],
+  leftSide: "A",
+  endChange: null,
+  currentInterval: null,
+  currentSetIntervals: [],
+  rules: DEFAULT_RULE_SET,
+  currentSetStartTime: 0,
+  lastRallyTime: 0,
+  setFinishData: null,
+  matchHistory: [],
+  lets: 0,
+  scoreEdits: 0,
+  servesLost: 0,
+  receiverOffsetA: 0,
+  receiverOffsetB: 0,
+  lastTwoPointWinners: [],
+  serverHand: null,
+  setTo: null,
+  settingOffer: null,
+};
+
+/**
+ * @summary Calculates the correct receiver based on BWF rules (Even-Even, Odd-Odd).
+ * @description
+ * Determines the receiver by using the serving team's score parity (even/odd)
+ * and the pre-calculated baseline offset for the receiving team.
+ * - Server: A, Receiver: B. Uses A's score parity + B's offset (`receiverOffsetA`).
+ * - Server: B, Receiver: A. Uses B's score parity + A's offset (`receiverOffsetB`).
+ * @param {MatchState} state - The current match state (to access players and offsets).
+ * @param {"A" | "B"} servingSide - The team that is *about to* serve.
+ * @param {number} pointsAVal - The current points for Team A (for the *next* rally).
+ * @param {number} pointsBVal - The current points for Team B (for the *next* rally).
+ * @returns {string | null} The name of the calculated receiver.
+ * @internal
+ */
+
+/**
+ * @summary Creates a "frozen" snapshot of the current match state.
+ * @description This is used to populate the `currentSetPointHistory` for point-by-point analysis,
+ * and for the latest point of the game in progress.
+ * @param {MatchState} state - The *current* state to snapshot.
+ * @returns {PointSnapshot} The immutable snapshot object.
+ */
+export function createSnapshot(state: MatchState): PointSnapshot {
+  return {
+    pointsA: state.pointsA,
+    setsA: state.setsA,
+    pointsB: state.pointsB,
+    setsB: state.setsB,
+    serverSide: state.serverSide,
+    currentServer: state.currentServer,
+    currentReceiver: state.currentReceiver,
+    nextServer: state.nextServer,
+    serveIndex: state.serveIndex,
+    serveOrder: [...state.serveOrder],
+    leftSide: state.leftSide,
+    lets: state.lets,
+    scoreEdits: state.scoreEdits,
+    servesLost: state.servesLost,
+    setTo: state.setTo,
+    time: state.lastRallyTime,
+    players: {
+      teamA: [...state.players.teamA],
+      teamB: [...state.players.teamB],
+    },
+  };
+}
+
+/**
+ * @summary Ends the running interval (if any) and logs it in the game record.
+ * @description A mid-game interval is logged in the current game; a
+ * between-games interval in the game that has just finished.
+ * @param {MatchState} state - The current state.
+ * @param {number} time - The match time when play resumes.
+ * @returns {MatchState} The state with no running interval.
+ * @internal
+ */
+function endRunningInterval(state: MatchState, time: number): MatchState {
+  if (!state.currentInterval) return state;
+
+  const finished = { ...state.currentInterval, endTime: time };
+
+  if (finished.kind === "MID_GAME") {
+    return {
+      ...state,
+      currentInterval: null,
+      currentSetIntervals: [...state.currentSetIntervals, finished],
+    };
+  }
+
+  const lastGame = state.matchHistory[state.matchHistory.length - 1];
+  if (!lastGame) return { ...state, currentInterval: null };
+  const updatedGame: GameSnapshot = {
+    ...lastGame,
+    intervals: [...lastGame.intervals, finished],
+  };
+
+  return {
+    ...state,
+    currentInterval: null,
+    matchHistory: [...state.matchHistory.slice(0, -1), updatedGame],
+    setFinishData:
+      state.setFinishData?.gameNumber === updatedGame.gameNumber
+        ? updatedGame
+        : state.setFinishData,
+  };
+}
+
+/**
+ * @summary Rebuilds the whole serve state around a given server and receiver.
+ * @description
+ * Used when the recorded serve state cannot be trusted (a service court
+ * correction or a manual score edit). The current score is kept. Every player
+ * is placed in the service court the score requires (see
+ * `placeForService`), and `serveOrder`, `serveIndex` and the
+ * receiver offsets are rebuilt from there: if the serving side loses the next
+ * rally, the receiving side serves from the court matching its new score.
+ * In triples only the rotation is rebuilt, starting from the given players.
+ * @param {MatchState} state - The current state, with the score already set.
+ * @param {string} serverName - The player who serves the next rally.
+ * @param {string} receiverName - The player who receives the next rally.
+ * @returns {MatchState} The state with the rebuilt serve state.
+ * @internal
+ */
+function withServiceState(
+  state: MatchState,
+  serverName: string,
+  receiverName: string
+): MatchState {
+  const { players } = state;
+  const servingSide = players.teamA.includes(serverName) ? "A" : "B";
+
+  const isSingle = players.teamA.length === 1;
+  let teamPositions = players;
+  let newServeOrder = [serverName, receiverName];
+
+  if (isTriples(players)) {
+    // No service courts: only the rotation restarts from the given players
+    newServeOrder = getTriplesServeOrder(
+      servingSide === "A" ? players.teamA : players.teamB,
+      serverName,
+      servingSide === "A" ? players.teamB : players.teamA,
+      receiverName
+    );
+  } else if (!isSingle) {
+    teamPositions = toPlayers(
+      placeForService(players, {
+        servingSide,
+        serverName,
+        receiverName,
+        servingScore: servingSide === "A" ? state.pointsA : state.pointsB,
+      })
+    );
+
+    // Team A is stored as [Left, Right], Team B as [Right, Left]
+    const rightA = teamPositions.teamA[1];
+    const rightB = teamPositions.teamB[0];
+
+    const servingTeam =
+      servingSide === "A" ? teamPositions.teamA : teamPositions.teamB;
+    const receivingTeam =
+      servingSide === "A" ? teamPositions.teamB : teamPositions.teamA;
+    const receivingScore = servingSide === "A" ? state.pointsB : state.pointsA;
+    const rightReceiving = servingSide === "A" ? rightB : rightA;
+    const leftReceiving =
+      receivingTeam.find((p) => p !== rightReceiving) ?? rightReceiving;
+    const nextSideServer =
+      (receivingScore + 1) % 2 === 0 ? rightReceiving : leftReceiving;
+
+    newServeOrder = [
+      serverName,
+      nextSideServer,
+      servingTeam.find((p) => p !== serverName) ?? serverName,
+      receivingTeam.find((p) => p !== nextSideServer) ?? nextSideServer,
+    ];
+  }
+
+  return {
+    ...state,
+    players: teamPositions,
+    serverSide: servingSide,
+    currentServer: serverName,
+    currentReceiver: receiverName,
+    serveOrder: newServeOrder,
+    serveIndex: 0, // The rotation is rebuilt from the given server
+    // Side-out doubles: the given server serves as first hand
+    serverHand: state.serverHand === null ? null : 1,
+    nextServer: newServeOrder[1] ?? null,
+    // The "Even" (right court) players, as placed above
+    receiverOffsetA: 0, // Team B is stored as [Right, Left]
+    receiverOffsetB: isSingle ? 0 : 1, // Team A is stored as [Left, Right]
+  };
+}
+
+/**
+ * @summary Gets a team's players as [Right court, Left court].
+ * @internal
+ */
+const rightLeftOf = (
+  players: MatchState["players"],
+  side: "A" | "B"
+): [string, string] => {
+  const { right, left } = toCourts(players)[side];
+  return [right, left];
+};
+
+/**
+ * @summary The serving hand a side-out game starts with.
+ * @description In doubles the side serving first in a game has only one
+ * hand ("one hand down"), so it starts on the second hand.
+ * @internal
+ */
+const startingHand = (rules: RuleSet, players: Players): 1 | 2 | null =>
+  isSideOut(rules) && players.teamA.length === 2 ? 2 : null;
+
+/**
+ * @summary The serving side loses a rally under side-out scoring.
+ * @description
+ * No point is scored. In doubles the first hand passes the serve to the
+ * partner, who serves from the court they stand in. Otherwise it is a
+ * service over: the other side serves, starting with the player in its
+ * right court (first hand), to the player diagonally opposite. Nobody
+ * changes courts. Triples has no hands: the serve passes straight over to
+ * the next player in the rotation.
+ * @param {MatchState} state - The state before the rally.
+ * @returns {MatchState} The state with the serve passed on.
+ * @internal
+ */
+function loseServe(state: MatchState): MatchState {
+  const { players } = state;
+  const servingSide = state.serverSide ?? "A";
+  const otherSide = servingSide === "A" ? "B" : "A";
+
+  // Singles: straight to a service over
+  if (players.teamA.length === 1) {
+    const server = otherSide === "A" ? players.teamA[0] : players.teamB[0];
+    const receiver = servingSide === "A" ? players.teamA[0] : players.teamB[0];
+    return {
+      ...state,
+      serverSide: otherSide,
+      currentServer: server,
+      currentReceiver: receiver,
+      nextServer: receiver,
+    };
+  }
+
+  // Triples: service over to the next player in the rotation
+  if (isTriples(players)) {
+    const serveIndex = (state.serveIndex + 1) % state.serveOrder.length;
+    return {
+      ...state,
+      serverSide: otherSide,
+      serveIndex,
+      currentServer: state.serveOrder[serveIndex],
+      currentReceiver: getNextInRotation(
+        state.serveOrder,
+        serveIndex,
+        servingSide === "A" ? players.teamA : players.teamB
+      ),
+      nextServer:
+        state.serveOrder[(serveIndex + 1) % state.serveOrder.length],
+    };
+  }
+
+  // Doubles, first hand: the partner serves from the other court
+  if (state.serverHand === 1) {
+    const servingCourts = rightLeftOf(players, servingSide);
+    const partner =
+      servingCourts.find((p) => p !== state.currentServer) ??
+      servingCourts[0];
+    const court = servingCourts.indexOf(partner);
+    return {
+      ...state,
+      serverHand: 2,
+      currentServer: partner,
+      currentReceiver: rightLeftOf(players, otherSide)[court],
+      nextServer: rightLeftOf(players, otherSide)[0],
+    };
+  }
+
+  // Doubles, second hand: service over to the player in the right court
+  const [server, serverPartner] = rightLeftOf(players, otherSide);
+  return {
+    ...state,
+    serverSide: otherSide,
+    serverHand: 1,
+    currentServer: server,
+    currentReceiver: rightLeftOf(players, servingSide)[0],
+    nextServer: serverPartner,
+  };
+}
+
+/**
+ * @summary Applies the court changes of a point scored under side-out scoring.
+ * @description
+ * The server keeps the serve and, in doubles, swaps courts with the partner;
+ * the receiving side stays put and the receiver is the player diagonally
+ * opposite. A tied score near the target (13-all, 14-all) opens a setting
+ * offer for the side that reached it first, the side not serving.
+ * @param {MatchState} state - The state before the rally.
+ * @param {MatchState} scored - The state after the point, as for rally scoring.
+ * @returns {MatchState} The state with the side-out positions and setting offer.
+ * @internal
+ */
+function withSideOutPoint(state: MatchState, scored: MatchState): MatchState {
+  const servingSide = state.serverSide ?? "A";
+  const otherSide = servingSide === "A" ? "B" : "A";
+  const setTarget =
+    state.setTo === null
+      ? getSettingTarget(state.rules, scored.pointsA, scored.pointsB)
+      : null;
+  const settingOffer: SettingOffer | null =
+    setTarget === null
+      ? null
+      : { side: otherSide, tiedAt: scored.pointsA, setTo: setTarget };
+
+  // Only doubles pairs change courts
+  if (state.players.teamA.length !== 2) {
+    return { ...scored, settingOffer };
+  }
+
+  // Swap the serving pair; the receiving pair keeps its courts
+  const { teamA, teamB } = state.players;
+  const players =
+    servingSide === "A"
+      ? { teamA: [teamA[1], teamA[0]], teamB }
+      : { teamA, teamB: [teamB[1], teamB[0]] };
+  const court = rightLeftOf(players, servingSide).indexOf(
+    state.currentServer ?? ""
+  );
+
+  return {
+    ...scored,
+    players,
+    serverSide: servingSide,
+    serverHand: state.serverHand,
+    currentServer: state.currentServer,
+    currentReceiver: rightLeftOf(players, otherSide)[Math.max(0, court)],
+    nextServer: state.nextServer,
+    settingOffer,
+  };
+}
+
+/**
+ * @summary Orders the receiving pair in the serve rotation at the start of a game.
+ * @description
+ * The receiver stands in the court matching the serving side's score. If the
+ * receiving side wins the first rally, its server is whoever stands in the
+ * court matching its new score: the receiver's partner at 0-0, but the
+ * receiver when a handicap puts both in the same court.
+ * @param {string} receiver - The player receiving the first rally.
+ * @param {string} receiverPartner - The receiver's partner.
+ * @param {number} servingPoints - The serving side's score at the start of the game.
+ * @param {number} receivingPoints - The receiving side's score at the start of the game.
+ * @returns {[string, string]} The receiving side's [first server, second server].
+ * @internal
+ */
+function orderReceivingPair(
+  receiver: string,
+  receiverPartner: string,
+  servingPoints: number,
+  receivingPoints: number
+): [string, string] {
+  const receiverServesFirst = servingPoints % 2 === (receivingPoints + 1) % 2;
+  return receiverServesFirst
+    ? [receiver, receiverPartner]
+    : [receiverPartner, receiver];
+}
+
+/**
+ * @summary Moves a newly started match on to the score it is resumed from.
+ * @description
+ * The games already played become `resumed` games in `matchHistory`, with
+ * their final score only (no point history or duration), so the sets won and
+ * the match stats carry on from them. The current game starts at the given
+ * score; its point history starts there too. The server and receiver are then
+ * placed in the courts the score requires (see `withServiceState`).
+ * @param {MatchState} state - The state right after 'START_MATCH'.
+ * @param {ResumeScore} resume - The games already played and the current score.
+ * @param {string} serverName - The player serving the next rally.
+ * @param {string} receiverName - The player receiving the next rally.
+ * @returns {MatchState} The state at the resumed score.
+ * @internal
+ */
+function resumeFromScore(
+  state: MatchState,
+  resume: ResumeScore,
+  serverName: string,
+  receiverName: string
+): MatchState {
+  const matchHistory: GameSnapshot[] = resume.completedGames.map(
+    (game, index) => ({
+      gameNumber: index + 1,
+      pointsA: game.pointsA,
+      pointsB: game.pointsB,
+      winnerSide: getGameWinner(state.rules, game.pointsA, game.pointsB),
+      startTime: state.currentSetStartTime,
+      duration: 0,
+      pointHistory: [],
+      intervals: [],
+      incomplete: false,
+      resumed: true,
+    })
+  );
+
+  const resumed: MatchState = {
+    ...state,
+    matchHistory,
+    setsA: matchHistory.filter((game) => game.winnerSide === "A").length,
+    setsB: matchHistory.filter((game) => game.winnerSide === "B").length,
+    pointsA: resume.pointsA,
+    pointsB: resume.pointsB,
+  };
+
+  return withServiceState(resumed, serverName, receiverName);
+}
+
+/**
+ * @summary Ends the match early in favour of the opponent of `loser`.
+ * @description Used for retirement, walkover and disqualification. A game
+ * that was under way is recorded in `matchHistory` as incomplete, at the score
+ * it reached; a game that had not started yet is dropped. The games score
+ * (`setsA`/`setsB`) is left as it was.
+ * @param {MatchState} state - The current state.
+ * @param {"A" | "B"} loser - The side that retires, withdraws or is disqualified.
+ * @param {MatchOutcome} outcome - How the match ended.
+ * @param {number} time - The match time when the match ended.
+ * @returns {MatchState} The finished state.
+ * @internal
+ */
+function endMatchEarly(
+  state: MatchState,
+  loser: "A" | "B",
+  outcome: MatchOutcome,
+  time: number
+): MatchState {
+  const isGameUnderWay =
+    state.setFinishData === null &&
+    (state.currentSetPointHistory.length > 0 ||
+      state.pointsA > 0 ||
+      state.pointsB > 0);
+
+  const unfinishedGame: GameSnapshot = {
+    gameNumber: state.matchHistory.length + 1,
+    pointsA: state.pointsA,
+    pointsB: state.pointsB,
+    startTime: state.currentSetStartTime,
+    duration: time - state.currentSetStartTime,
+    winnerSide: null,
+    pointHistory: [...state.currentSetPointHistory, createSnapshot(state)],
+    intervals: state.currentSetIntervals,
+    incomplete: true,
+    resumed: false,
+  };
+
+  return {
+    ...state,
+    matchHistory: isGameUnderWay
+      ? [...state.matchHistory, unfinishedGame]
+      : state.matchHistory,
+    currentSetPointHistory: [],
+    currentSetIntervals: [],
+    status: "MATCH_FINISHED",
+    matchWinner: loser === "A" ? "B" : "A",
+    outcome,
+    currentInterval: null,
+    endChange: null,
+  };
+}
+
+/**
+ * @summary
+ * The main reducer function for managing all match logic.
+ *
+ * @description
+ * This pure function takes the previous state and a recorded event,
+ * and returns a new, immutable state. It contains all the
+ * rules for scoring, server rotation, and match progression.
+ * It is folded over the event log by `replayMatch`. An event that does not
+ * apply in the state returns `state` itself, which `applyEvent` relies on to
+ * reject it.
+ *
+ * @param {MatchState} state - The previous state.
+ * @param {MatchEvent} action - The event being applied.
+ * @returns {MatchState} The new, updated state.
+ */
+export function matchReducer(
+  state: MatchState,
+  action: MatchEvent
+): MatchState {
+  switch (action.type) {
+    // --- ACTION: START_MATCH ---
+    // Resets the state and configures a new match.
+    case "START_MATCH": {
+      const {
+        newPlayers,
+        firstServe,
+        firstServerName,
+        opponentReceiverName,
+        rulesParam,
+        startTime,
+        resumeFrom,
+      } = action.payload;
+
+      let teamPositions = null;
+
+      const { teamA, teamB } = newPlayers;
+      // Every game starts at the handicap score (0-0 without a handicap)
+      const handicap = getHandicap(rulesParam ?? initialState.rules);
+
+      const single = teamA.length === 1;
+      if (single || isTriples(newPlayers)) {
+        teamPositions = newPlayers;
+      } else {
+        teamPositions = toPlayers(
+          placeForService(newPlayers, {
+            servingSide: firstServe,
+            serverName: firstServerName,
+            receiverName: opponentReceiverName,
+            servingScore:
+              firstServe === "A" ? handicap.pointsA : handicap.pointsB,
+          })
+        );
+      }
+
+      let rotation: string[] = [];
+      let server: string | null = null;
+      let receiver: string | null = null;
+
+      if (single) {
+        server = firstServe === "A" ? teamA[0] : teamB[0];
+        receiver = firstServe === "A" ? teamB[0] : teamA[0];
+        rotation = [server, receiver];
+      } else if (isTriples(newPlayers)) {
+        rotation = getTriplesServeOrder(
+          firstServe === "A" ? teamA : teamB,
+          firstServerName,
+          firstServe === "A" ? teamB : teamA,
+          opponentReceiverName
+        );
+        server = firstServerName;
+        receiver = opponentReceiverName;
+      } else {
+        const firstServerTeam = firstServe === "A" ? teamA : teamB;
+        const opponentTeam = firstServe === "A" ? teamB : teamA;
+        const sIdx = Math.max(0, firstServerTeam.indexOf(firstServerName));
+        const oIdx = Math.max(0, opponentTeam.indexOf(opponentReceiverName));
+
+        const a = firstServerTeam[sIdx]; // Initial Server (Even)
+        const b = opponentTeam[oIdx]; // Initial Receiver (Even)
+        const c = firstServerTeam[1 - sIdx]; // Server Partner (Odd)
+        const d = opponentTeam[1 - oIdx]; // Receiver Partner (Odd)
+
+        const [firstB, secondB] = orderReceivingPair(
+          b,
+          d,
+          firstServe === "A" ? handicap.pointsA : handicap.pointsB,
+          firstServe === "A" ? handicap.pointsB : handicap.pointsA
+        );
+
+        rotation = [a, firstB, c, secondB]; // BWF Doubles Serve Rotation
+        server = firstServerName;
+        receiver = opponentReceiverName;
+      }
+
+      const initIndex = rotation.findIndex((p) => p === firstServerName);
+      const startIndex = initIndex >= 0 ? initIndex : 0;
+
+      const started: MatchState = {
+        ...initialState, // Reset all state to defaults
+        players: teamPositions,
+        rules: rulesParam ?? initialState.rules,
+        serverHand: startingHand(rulesParam ?? initialState.rules, newPlayers),
+        pointsA: handicap.pointsA,
+        pointsB: handicap.pointsB,
+        currentSetStartTime: startTime,
+        lastRallyTime: startTime,
+        serveOrder: rotation,
+        serveIndex: startIndex,
+        nextServer: rotation[(startIndex + 1) % rotation.length],
+        serverSide: firstServe,
+        currentServer: server,
+        currentReceiver: receiver,
+      };
+
+      if (!resumeFrom) return started;
+      if (!isResumableScore(started.rules, resumeFrom)) return state;
+
+      return resumeFromScore(started, resumeFrom, server, receiver);
+    }
+
+    // --- ACTION: INCREMENT ---
+    // Handles a point being won by either side.
+    case "INCREMENT": {
+      // A decided match cannot be scored any further, nor a decided game
+      // while its end is waiting to be confirmed.
+      if (state.status === "MATCH_FINISHED" || state.setFinishData) {
+        return state;
+      }
+
+      const { side, time } = action.payload;
+
+      // A rally being played means any running interval is over.
+      if (state.currentInterval) {
+        return matchReducer(endRunningInterval(state, time), action);
+      }
+
+      if (isSideOut(state.rules)) {
+        // The setting decision must be made before the next rally.
+        if (state.settingOffer) return state;
+        // Only the serving side can score; the lost rally is still recorded.
+        if (side !== state.serverSide) {
+          return {
+            ...loseServe(state),
+            currentSetPointHistory: [
+              ...state.currentSetPointHistory,
+              createSnapshot(state),
+            ],
+            servesLost: state.servesLost + 1,
+            lastRallyTime: time,
+          };
+        }
+      }
+
+      const currentStateSnapshot = createSnapshot(state);
+
+      const newPointsA = side === "A" ? state.pointsA + 1 : state.pointsA;
+      const newPointsB = side === "B" ? state.pointsB + 1 : state.pointsB;
+
+      const gameWinner = getGameWinner(
+        state.rules,
+        newPointsA,
+        newPointsB,
+        state.setTo
+      );
+
+      // ---- 1. Handle Set Finish ----
+      if (gameWinner) {
+        const winnerSide = gameWinner;
+        const newSetsA = state.setsA + (winnerSide === "A" ? 1 : 0);
+        const newSetsB = state.setsB + (winnerSide === "B" ? 1 : 0);
+
+        // Check whether this game also decides the match
+        const gamesToWin = getGamesToWin(state.rules.gamesPerMatch);
+        const isMatchFinished =
+          newSetsA >= gamesToWin || newSetsB >= gamesToWin;
+
+        const finalPointSnapshot: PointSnapshot = {
+          ...currentStateSnapshot,
+          pointsA: newPointsA,
+          pointsB: newPointsB,
+          setsA: newSetsA,
+          setsB: newSetsB,
+          time,
+        };
+
+        const gameHistory = [
+          ...state.currentSetPointHistory,
+          currentStateSnapshot, // State *before* the winning point
+          finalPointSnapshot, // State *after* the winning point
+        ];
+
+        // Calculate last two point winners for next-set server logic
+        const winners: ("A" | "B")[] = [];
+        for (let i = 1; i < gameHistory.length; i++) {
+          const prev = gameHistory[i - 1];
+          const cur = gameHistory[i];
+          if (cur.scoreEdits > prev.scoreEdits) continue; // Not a rally
+          if (cur.pointsA > prev.pointsA) winners.push("A");
+          else if (cur.pointsB > prev.pointsB) winners.push("B");
+        }
+
+        const lastTwo = winners.slice(-2);
+
+        const data: GameSnapshot = {
+          gameNumber: state.matchHistory.length + 1,
+          pointsA: newPointsA,
+          pointsB: newPointsB,
+          startTime: state.currentSetStartTime,
+          duration: time - state.currentSetStartTime,
+          winnerSide: winnerSide,
+          pointHistory: gameHistory,
+          intervals: state.currentSetIntervals,
+          incomplete: false,
+          resumed: false,
+        };
+
+        const winnerTeam =
+          winnerSide === "A" ? state.players.teamA : state.players.teamB;
+        const loserTeam =
+          winnerSide === "A" ? state.players.teamB : state.players.teamA;
+
+        let defaultNextServer = winnerTeam[0]; // Default fallback
+
+        // Determine default server based on custom rules
+        if (lastTwo.length === 2 && state.serveOrder.length > 0) {
+          const sameWinner = lastTwo[0] === lastTwo[1];
+
+          if (sameWinner) {
+            // Last two points won by same team: server stays
+            defaultNextServer = state.currentServer ?? winnerTeam[0];
+          } else {
+            // Last two points split: server switches to partner
+            const lastServerIndex = state.serveOrder.indexOf(
+              state.currentServer!
+            );
+            if (lastServerIndex !== -1) {
+              const partnerIndex =
+                (lastServerIndex + 2) % state.serveOrder.length;
+              defaultNextServer = state.serveOrder[partnerIndex];
+            } else {
+              defaultNextServer = winnerTeam[0]; // Fallback
+            }
+          }
+        } else {
+          defaultNextServer = state.currentServer ?? winnerTeam[0];
+        }
+
+        // Ensure the default server is on the winning team
+        if (!winnerTeam.includes(defaultNextServer)) {
+          defaultNextServer = winnerTeam[0];
+        }
+
+        const isSingle = state.players.teamA.length === 1;
+        let teamPositions = null;
+
+        if (isSingle || isTriples(state.players)) {
+          teamPositions = state.players;
+        } else {
+          // Where everyone stood at the end of the game
+          teamPositions = toPlayers(
+            applyRally(
+              toCourts(state.players),
+              state.serverSide ?? side,
+              winnerSide
+            )
+          );
+        }
+
+        let defaultNextReceiver = null;
+        if (winnerSide === "A") {
+          defaultNextReceiver = loserTeam[0];
+        } else {
+          defaultNextReceiver = loserTeam[1];
+        }
+
+        return {
+          ...state,
+          pointsA: newPointsA,
+          pointsB: newPointsB,
+          setsA: newSetsA,
+          setsB: newSetsB,
+          setFinishData: data,
+          matchHistory: [...state.matchHistory, data],
+          lastTwoPointWinners: lastTwo,
+          status: isMatchFinished ? "MATCH_FINISHED" : state.status,
+          matchWinner: isMatchFinished ? winnerSide : null,
+          outcome: isMatchFinished ? "COMPLETED" : null,
+
+          // The between-games interval starts as soon as the game ends
+          currentInterval:
+            state.rules.intervals && !isMatchFinished
+              ? startInterval("BETWEEN_GAMES", time)
+              : null,
+          currentSetIntervals: [],
+
+          // Set state to new defaults for the modal
+          currentServer: defaultNextServer,
+          currentReceiver: defaultNextReceiver,
+          players: teamPositions,
+
+          currentSetPointHistory: [], // Clear history for next set
+        };
+      }
+
+      // ---- 2. Handle Point-in-Progress ----
+      // The leading side first reaching the mid-game point triggers the interval,
+      // and in the deciding game also the change of ends.
+      const gamesToWin = getGamesToWin(state.rules.gamesPerMatch);
+      const isDecidingGame =
+        state.setsA === gamesToWin - 1 && state.setsB === gamesToWin - 1;
+      const midGamePoint = getMidGamePoint(state.rules);
+      const isMidGame =
+        Math.max(state.pointsA, state.pointsB) < midGamePoint &&
+        Math.max(newPointsA, newPointsB) >= midGamePoint;
+      const isMidGameEndChange = isDecidingGame && isMidGame;
+
+      const prevServerSide = state.serverSide;
+      const isServeChange = side !== prevServerSide;
+
+      let newServerSide = prevServerSide ?? side;
+      let newServer = state.currentServer;
+      let newNext = state.nextServer;
+      let newServeIndex = state.serveIndex;
+
+      // If serve changed, advance the server rotation
+      if (isServeChange && state.serveOrder.length > 0) {
+        newServeIndex = (state.serveIndex + 1) % state.serveOrder.length;
+        newServer = state.serveOrder[newServeIndex];
+        newNext =
+          state.serveOrder[(newServeIndex + 1) % state.serveOrder.length];
+        newServerSide = state.players.teamA.includes(newServer) ? "A" : "B";
+      }
+
+      const isSingle = state.players.teamA.length === 1;
+      let teamPositions = null;
+      let newReceiver = null;
+
+      if (isSingle) {
+        teamPositions = state.players;
+        if (newServerSide === "A") {
+          newReceiver = teamPositions.teamB[0];
+        } else if (newServerSide === "B") {
+          newReceiver = teamPositions.teamA[0];
+        }
+      } else if (isTriples(state.players)) {
+        // No service courts: the receiver is the receiving side's next server
+        teamPositions = state.players;
+        newReceiver = getNextInRotation(
+          state.serveOrder,
+          newServeIndex,
+          newServerSide === "A" ? state.players.teamB : state.players.teamA
+        );
+      } else {
+        // BWF Law 11: only the serving side's won rallies move players, and
+        // the court positions then decide who serves and who receives.
+        const courts = applyRally(
+          toCourts(state.players),
+          prevServerSide ?? side,
+          side
+        );
+        const receivingSide = side === "A" ? "B" : "A";
+        const receivingScore = side === "A" ? newPointsB : newPointsA;
+        const { server, receiver } = getServerAndReceiver(
+          courts,
+          side,
+          side === "A" ? newPointsA : newPointsB
+        );
+
+        teamPositions = toPlayers(courts);
+        newServerSide = side;
+        newServer = server;
+        newReceiver = receiver;
+        // Whoever would serve if the receiving side wins the next rally
+        newNext = courts[receivingSide][getServiceCourt(receivingScore + 1)];
+        const rotationIndex = state.serveOrder.indexOf(server);
+        if (rotationIndex !== -1) newServeIndex = rotationIndex;
+      }
+
+      const scored: MatchState = {
+        ...state,
+        pointsA: newPointsA,
+        pointsB: newPointsB,
+        lastRallyTime: time,
+        currentSetPointHistory: [
+          ...state.currentSetPointHistory,
+          currentStateSnapshot,
+        ],
+        serverSide: newServerSide,
+        currentServer: newServer,
+        nextServer: newNext,
+        serveIndex: newServeIndex,
+        currentReceiver: newReceiver,
+        players: teamPositions,
+        leftSide: isMidGameEndChange
+          ? state.leftSide === "A"
+            ? "B"
+            : "A"
+          : state.leftSide,
+        endChange: isMidGameEndChange ? "MID_GAME" : state.endChange,
+        currentInterval:
+          isMidGame && state.rules.intervals
+            ? startInterval("MID_GAME", time)
+            : null,
+      };
+
+      return isSideOut(state.rules) ? withSideOutPoint(state, scored) : scored;
+    }
+
+    // --- ACTION: LET ---
+    // Records a replayed rally: the score, server and receiver stay the same.
+    case "LET": {
+      // No rally is played between games.
+      if (state.status === "MATCH_FINISHED" || state.setFinishData) {
+        return state;
+      }
+
+      const { time } = action.payload;
+
+      // A rally being played means any running interval is over.
+      if (state.currentInterval) {
+        return matchReducer(endRunningInterval(state, time), action);
+      }
+
+      return {
+        ...state,
+        currentSetPointHistory: [
+          ...state.currentSetPointHistory,
+          createSnapshot(state),
+        ],
+        lets: state.lets + 1,
+        lastRallyTime: time,
+      };
+    }
+
+    // --- ACTION: ISSUE_CARD ---
+    // Records a misconduct card (BWF Law 16) against a player.
+    case "ISSUE_CARD": {
+      // Between games the card would count against the finished game.
+      if (state.status === "MATCH_FINISHED" || state.setFinishData) {
+        return state;
+      }
+
+      const { player, color, time } = action.payload;
+      const side = state.players.teamA.includes(player) ? "A" : "B";
+      const opponent = side === "A" ? "B" : "A";
+
+      const withCard: MatchState = {
+        ...state,
+        cards: [
+          ...state.cards,
+          {
+            color,
+            player,
+            side,
+            gameNumber: state.matchHistory.length + 1,
+            pointsA: state.pointsA,
+            pointsB: state.pointsB,
+            time,
+          },
+        ],
+      };
+
+      // A fault: the opponent wins the rally, with the normal rotation.
+      if (color === "RED") {
+        return matchReducer(withCard, {
+          type: "INCREMENT",
+          payload: { side: opponent, time },
+        });
+      }
+
+      // A disqualification: the opponent wins the match.
+      if (color === "BLACK") {
+        return endMatchEarly(withCard, side, "DISQUALIFIED", time);
+      }
+
+      return withCard;
+    }
+
+    // --- ACTION: END_MATCH ---
+    // Ends the match by retirement, walkover or disqualification.
+    case "END_MATCH": {
+      if (state.status === "MATCH_FINISHED") return state;
+
+      const { outcome, side, time } = action.payload;
+
+      // A walkover is only possible before the first rally has been played.
+      const hasPlayStarted =
+        state.matchHistory.length > 0 ||
+        state.currentSetPointHistory.length > 0;
+      if (outcome === "WALKOVER" && hasPlayStarted) return state;
+
+      return endMatchEarly(state, side, outcome, time);
+    }
+
+    // --- ACTION: CORRECT_SERVICE ---
+    // Corrects a service court error (BWF Law 12) without touching the score.
+    case "CORRECT_SERVICE": {
+      // Between games the next server is chosen in the SetFinishModal instead.
+      if (state.status === "MATCH_FINISHED" || state.setFinishData) {
+        return state;
+      }
+
+      const { serverName, receiverName, time } = action.payload;
+
+      return {
+        ...withServiceState(state, serverName, receiverName),
+        serviceCorrections: [
+          ...state.serviceCorrections,
+          {
+            gameNumber: state.matchHistory.length + 1,
+            pointsA: state.pointsA,
+            pointsB: state.pointsB,
+            time,
+            previousServer: state.currentServer,
+            previousReceiver: state.currentReceiver,
+            server: serverName,
+            receiver: receiverName,
+          },
+        ],
+      };
+    }
+
+    // --- ACTION: EDIT_SCORE ---
+    // Sets the score of the current game by hand and works out the serve state.
+    case "EDIT_SCORE": {
+      if (state.status === "MATCH_FINISHED" || state.setFinishData) {
+        return state;
+      }
+
+      // The edited score must leave both the game and the match open.
+      if (!isPlayableScore(state.rules, action.payload)) return state;
+
+      const { pointsA, pointsB, setsA, setsB, servingSide } = action.payload;
+
+      const edited: MatchState = {
+        ...state,
+        pointsA,
+        pointsB,
+        setsA,
+        setsB,
+        // The state before the edit stays in the history as an audit entry
+        currentSetPointHistory: [
+          ...state.currentSetPointHistory,
+          createSnapshot(state),
+        ],
+        scoreEdits: state.scoreEdits + 1,
+      };
+
+      const { players } = state;
+      const servingTeam = servingSide === "A" ? players.teamA : players.teamB;
+      const receivingTeam = servingSide === "A" ? players.teamB : players.teamA;
+
+      // BWF parity: even score serves from the right court, odd from the left.
+      const courts = toCourts(players);
+      const court = getServiceCourt(servingSide === "A" ? pointsA : pointsB);
+
+      const keepsServer =
+        state.serverSide === servingSide &&
+        state.currentServer &&
+        servingTeam.includes(state.currentServer);
+
+      // Triples: the side's next player in the rotation serves after a change
+      // of side, and the receiver is the receiving side's next server.
+      if (isTriples(players)) {
+        const nextOf = (team: string[]) =>
+          getNextInRotation(state.serveOrder, state.serveIndex, team);
+        return withServiceState(
+          edited,
+          keepsServer ? state.currentServer! : nextOf(servingTeam),
+          keepsServer ? state.currentReceiver! : nextOf(receivingTeam)
+        );
+      }
+
+      // The same server keeps the serve if the side did not change;
+      // otherwise the player standing in the court the score requires serves.
+      const serverName = keepsServer
+        ? state.currentServer!
+        : courts[servingSide][court];
+      // The receiver is whoever stands diagonally opposite (the same court).
+      const receiverName =
+        receivingTeam.length === 1
+          ? receivingTeam[0]
+          : courts[servingSide === "A" ? "B" : "A"][court];
+
+      return withServiceState(edited, serverName, receiverName);
+    }
+
+    // --- ACTION: CONTINUE_NEXT_SET ---
+    // Resets scores and configures server/receiver/offsets for the new set.
+    case "CONTINUE_NEXT_SET": {
+      // Only a game that has just ended leads to the next one, and there is
+      // no next set once the match has been decided.
+      const finishedGame = state.setFinishData;
+      if (state.status === "MATCH_FINISHED" || !finishedGame) return state;
+
+      const { startTime, nextServerName, nextReceiverName } = action.payload;
+      const { players } = state;
+
+      // The winner of the game serves first in the next one.
+      const winnerTeam =
+        finishedGame.winnerSide === "A" ? players.teamA : players.teamB;
+      const loserTeam =
+        finishedGame.winnerSide === "A" ? players.teamB : players.teamA;
+      if (
+        !winnerTeam.includes(nextServerName) ||
+        !loserTeam.includes(nextReceiverName)
+      ) {
+        return state;
+      }
+      // Every game starts at the handicap score (0-0 without a handicap)
+      const handicap = getHandicap(state.rules);
+
+      const isSingle = players.teamA.length === 1;
+      let newServeOrder = state.serveOrder;
+
+      if (isSingle) {
+        newServeOrder = players.teamA.includes(nextServerName)
+          ? [nextServerName, nextReceiverName]
+          : [nextServerName, nextReceiverName];
+      } else if (isTriples(players)) {
+        const servingA = players.teamA.includes(nextServerName);
+        newServeOrder = getTriplesServeOrder(
+          servingA ? players.teamA : players.teamB,
+          nextServerName,
+          servingA ? players.teamB : players.teamA,
+          nextReceiverName
+        );
+      } else if (players.teamA.length > 1) {
+        // Re-calculate rotation and offsets based on modal selection
+        const serverTeam = players.teamA.includes(nextServerName)
+          ? players.teamA
+          : players.teamB;
+        const receiverTeam = players.teamA.includes(nextReceiverName)
+          ? players.teamA
+          : players.teamB;
+
+        const sIdx = Math.max(0, serverTeam.indexOf(nextServerName));
+        const oIdx = Math.max(0, receiverTeam.indexOf(nextReceiverName));
+        const serverPartner = serverTeam[1 - sIdx];
+        const receiverPartner = receiverTeam[1 - oIdx];
+        const servingA = serverTeam === players.teamA;
+        const [firstReceiving, secondReceiving] = orderReceivingPair(
+          nextReceiverName,
+          receiverPartner,
+          servingA ? handicap.pointsA : handicap.pointsB,
+          servingA ? handicap.pointsB : handicap.pointsA
+        );
+
+        newServeOrder = [
+          nextServerName,
+          firstReceiving,
+          serverPartner,
+          secondReceiving,
+        ];
+      }
+
+      let teamPositions = null;
+
+      if (isSingle || isTriples(players)) {
+        teamPositions = state.players;
+      } else {
+        const servingSide = players.teamA.includes(nextServerName) ? "A" : "B";
+        teamPositions = toPlayers(
+          placeForService(players, {
+            servingSide,
+            serverName: nextServerName,
+            receiverName: nextReceiverName,
+            servingScore:
+              servingSide === "A" ? handicap.pointsA : handicap.pointsB,
+          })
+        );
+      }
+
+      return {
+        ...state,
+        pointsA: handicap.pointsA,
+        pointsB: handicap.pointsB,
+        currentServer: nextServerName,
+        serverSide: players.teamA.includes(nextServerName) ? "A" : "B",
+        currentReceiver: nextReceiverName,
+        currentSetStartTime: startTime,
+        lastRallyTime: startTime,
+        setFinishData: null,
+        currentSetPointHistory: [], // Clear history for new set
+        lets: 0,
+        scoreEdits: 0,
+        servesLost: 0,
+        lastTwoPointWinners: [],
+        serverHand: startingHand(state.rules, players),
+        setTo: null,
+        settingOffer: null,
+        serveOrder: newServeOrder,
+        serveIndex: 0, // Start new set at index 0
+        nextServer: newServeOrder[1] ?? null,
+        players: teamPositions,
+        // Teams change ends after every game
+        leftSide: state.leftSide === "A" ? "B" : "A",
+        endChange: "BETWEEN_GAMES",
+      };
+    }
+
+    // --- OTHER ACTIONS ---
+    case "RESET_HISTORY":
+      return { ...state, matchHistory: [] };
+    case "SET_SET_FINISH_DATA":
+      return { ...state, setFinishData: action.payload };
+    case "CLEAR_POINT_HISTORY":
+      return { ...state, currentSetPointHistory: [] };
+
+    // --- (ADDED) Actions for SetFinishModal dropdowns ---
+    /**
+     * Updates the 'currentServer' state.
+     * Used by the SetFinishModal to update the next server choice.
+     */
+    case "SET_NEXT_SERVER":
+      return { ...state, currentServer: action.payload };
+    /**
+     * Updates the 'currentReceiver' state.
+     * Used by the SetFinishModal to update the next receiver choice.
+     */
+    case "SET_NEXT_RECEIVER":
+      return { ...state, currentReceiver: action.payload };
+    case "DISMISS_END_CHANGE":
+      return { ...state, endChange: null };
+    /** Sets the side-out game (or plays on to the target) as the side chose. */
+    case "CHOOSE_SETTING":
+      if (!state.settingOffer) return state;
+      return {
+        ...state,
+        setTo: action.payload.setGame ? state.settingOffer.setTo : null,
+        settingOffer: null,
+      };
+    /** Ends the running interval and logs it in the game record. */
+    case "END_INTERVAL":
+      return endRunningInterval(state, action.payload.time);
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * @summary Derives the match state by replaying an event log from the start.
+ * @description A pure fold of `matchReducer` over `events`, starting from
+ * `initialState`. The same log always yields the same state, which is what
+ * lets undo, redo and persistence work on the log alone.
+ * @param {MatchEvent[]} events - The recorded events, oldest first.
+ * @returns {MatchState} The state after the last event.
+ */
+export function replayMatch(events: MatchEvent[]): MatchState {
+  return events.reduce(matchReducer, initialState);
+}
@@ -0,0 +1,258 @@
+import { MatchEvent, MatchState } from "../types/match";
+import { getGamesToWin } from "../utils/getGamesToWin";
+import { getGameWinner, isSideOut } from "../utils/ruleSets";
+import { getServiceCourt, toCourts } from "../utils/courtModel";
+import { getTeamFormat } from "../utils/teamFormat";
+
+/**
+ * @summary One broken invariant found in a match state.
+ */
+export type StateIssue = {
+  /** A stable identifier for the invariant (e.g., "SERVER_NOT_ON_SERVING_SIDE"). */
+  code: string;
+  /** A readable description, naming the players or values involved. */
+  message: string;
+};
+
+/**
+ * @summary A diagnostic snapshot of a bad state, to attach to a bug report.
+ */
+export type DiagnosticReport = {
+  /** The invariants that failed. */
+  issues: StateIssue[];
+  /** The serve and score fields of the state the issues were found in. */
+  state: Pick<
+    MatchState,
+    | "pointsA"
+    | "pointsB"
+    | "setsA"
+    | "setsB"
+    | "players"
+    | "serverSide"
+    | "currentServer"
+    | "currentReceiver"
+    | "nextServer"
+    | "serveOrder"
+    | "serveIndex"
+    | "serverHand"
+    | "status"
+    | "rules"
+  >;
+  /** The full event log, so the state can be replayed. */
+  events: MatchEvent[];
+};
+
+/**
+ * @summary
+ * Checks a match state against the scoring and service invariants.
+ *
+ * @description
+ * Every check only applies while a game is being played (after 'START_MATCH',
+ * before the match ends and not between games):
+ * - Rosters: the same number of players on each side, no name used twice.
+ * - Score: no negative points, the game and the match still open.
+ * - Service: a serving side, a server on that side and a receiver on the
+ *   other one, and a server that is in the serve rotation.
+ * - Courts (BWF Law 11, rally-scored doubles): the server stands
+ *   in the service court the serving side's score requires and the receiver
+ *   diagonally opposite.
+ * - Side-out: a serving hand only in doubles, a setting offer only under
+ *   side-out scoring.
+ *
+ * The state is never changed; the caller decides how to report or recover.
+ *
+ * @param {MatchState} state - The state to check.
+ * @returns {StateIssue[]} The broken invariants (empty for a valid state).
+ */
+export function validateMatchState(state: MatchState): StateIssue[] {
+  const { players } = state;
+  const isGameInProgress =
+    players.teamA.length > 0 &&
+    state.status !== "MATCH_FINISHED" &&
+    state.setFinishData === null;
+  if (!isGameInProgress) return [];
+
+  const issues: StateIssue[] = [];
+  const fail = (code: string, message: string) =>
+    issues.push({ code, message });
+
+  // --- Rosters ---
+  if (players.teamA.length !== players.teamB.length) {
+    fail(
+      "ROSTER_SIZE_MISMATCH",
+      `Team A has ${players.teamA.length} players, Team B has ${players.teamB.length}.`
+    );
+  }
+  const allPlayers = [...players.teamA, ...players.teamB];
+  if (new Set(allPlayers).size !== allPlayers.length) {
+    fail("DUPLICATE_PLAYER", "A player name appears more than once.");
+  }
+
+  // --- Score ---
+  if (state.pointsA < 0 || state.pointsB < 0) {
+    fail("NEGATIVE_SCORE", `The score is ${state.pointsA}-${state.pointsB}.`);
+  }
+  if (getGameWinner(state.rules, state.pointsA, state.pointsB, state.setTo)) {
+    fail(
+      "GAME_ALREADY_WON",
+      `The score ${state.pointsA}-${state.pointsB} has already won the game, but the game is still open.`
+    );
+  }
+  const gamesToWin = getGamesToWin(state.rules.gamesPerMatch);
+  if (state.setsA >= gamesToWin || state.setsB >= gamesToWin) {
+    fail(
+      "MATCH_ALREADY_WON",
+      `The games score ${state.setsA}-${state.setsB} has already won the match, but the match is still open.`
+    );
+  }
+
+  // --- Service ---
+  const { serverSide, currentServer, currentReceiver } = state;
+  if (!serverSide) {
+    fail("NO_SERVING_SIDE", "No side is serving.");
+    return issues;
+  }
+  const servingTeam = serverSide === "A" ? players.teamA : players.teamB;
+  const receivingSide = serverSide === "A" ? "B" : "A";
+  const receivingTeam = serverSide === "A" ? players.teamB : players.teamA;
+
+  if (!currentServer || !servingTeam.includes(currentServer)) {
+    fail(
+      "SERVER_NOT_ON_SERVING_SIDE",
+      `The server (${currentServer ?? "none"}) is not on the serving side (Team ${serverSide}).`
+    );
+  }
+  if (!currentReceiver || !receivingTeam.includes(currentReceiver)) {
+    fail(
+      "RECEIVER_NOT_ON_RECEIVING_SIDE",
+      `The receiver (${currentReceiver ?? "none"}) is not on the receiving side (Team ${receivingSide}).`
+    );
+  }
+  if (currentServer && !state.serveOrder.includes(currentServer)) {
+    fail(
+      "SERVER_NOT_IN_ROTATION",
+      `The server (${currentServer}) is not in the serve rotation.`
+    );
+  }
+
+  // --- Courts (BWF Law 11) ---
+  const format = getTeamFormat(players);
+  const sideOut = isSideOut(state.rules);
+  if (format === "DOUBLES" && !sideOut) {
+    const courts = toCourts(players);
+    const court = getServiceCourt(
+      serverSide === "A" ? state.pointsA : state.pointsB
+    );
+    // Only for players on the right side (already reported otherwise)
+    const server = servingTeam.includes(currentServer ?? "")
+      ? currentServer
+      : null;
+    const receiver = receivingTeam.includes(currentReceiver ?? "")
+      ? currentReceiver
+      : null;
+    if (server && courts[serverSide][court] !== server) {
+      fail(
+        "SERVER_IN_WRONG_COURT",
+        `The server (${server}) should be in the ${court} service court, where ${courts[serverSide][court]} stands.`
+      );
+    }
+    if (receiver && courts[receivingSide][court] !== receiver) {
+      fail(
+        "RECEIVER_NOT_DIAGONAL",
+        `The receiver (${receiver}) should be in the ${court} service court, where ${courts[receivingSide][court]} stands.`
+      );
+    }
+  }
+
+  // --- Side-out ---
+  if (state.serverHand !== null && !(sideOut && format === "DOUBLES")) {
+    fail(
+      "UNEXPECTED_SERVER_HAND",
+      "A serving hand is set outside side-out doubles."
+    );
+  }
+  if (sideOut && format === "DOUBLES" && state.serverHand === null) {
+    fail("MISSING_SERVER_HAND", "Side-out doubles has no serving hand.");
+  }
+  if (state.settingOffer && !sideOut) {
+    fail(
+      "UNEXPECTED_SETTING_OFFER",
+      "A setting offer is pending outside side-out scoring."
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * @summary Suggests the server and receiver to recover from a bad serve state.
+ * @description The serving side is kept (Team A if none is set), and so are
+ * the server and receiver if they are on the right sides. Otherwise the player
+ * in the service court the score requires is used (the first player in
+ * singles and triples). Applied as a 'CORRECT_SERVICE' event, which then
+ * places everyone in the courts the score requires.
+ * @param {MatchState} state - The state to recover.
+ * @returns {{ serverName: string; receiverName: string } | null} The players, or `null` before a match starts.
+ */
+export function suggestServiceFix(
+  state: MatchState
+): { serverName: string; receiverName: string } | null {
+  const { players } = state;
+  if (players.teamA.length === 0) return null;
+
+  const servingSide = state.serverSide ?? "A";
+  const receivingSide = servingSide === "A" ? "B" : "A";
+  const teamOf = (side: "A" | "B") =>
+    side === "A" ? players.teamA : players.teamB;
+
+  const isDoubles = getTeamFormat(players) === "DOUBLES";
+  const courts = toCourts(players);
+  const court = getServiceCourt(
+    servingSide === "A" ? state.pointsA : state.pointsB
+  );
+  const pick = (side: "A" | "B", current: string | null) =>
+    current && teamOf(side).includes(current)
+      ? current
+      : isDoubles
+        ? courts[side][court]
+        : teamOf(side)[0];
+
+  return {
+    serverName: pick(servingSide, state.currentServer),
+    receiverName: pick(receivingSide, state.currentReceiver),
+  };
+}
+
+/**
+ * @summary Builds a diagnostic snapshot for a bug report.
+ * @param {MatchState} state - The state the issues were found in.
+ * @param {MatchEvent[]} events - The event log the state was derived from.
+ * @param {StateIssue[]} issues - The broken invariants.
+ * @returns {DiagnosticReport} A JSON-serialisable report.
+ */
+export function createDiagnosticReport(
+  state: MatchState,
+  events: MatchEvent[],
+  issues: StateIssue[]
+): DiagnosticReport {
+  return {
+    issues,
+    state: {
+      pointsA: state.pointsA,
+      pointsB: state.pointsB,
+      setsA: state.setsA,
+      setsB: state.setsB,
+      players: state.players,
+      serverSide: state.serverSide,
+      currentServer: state.currentServer,
+      currentReceiver: state.currentReceiver,
+      nextServer: state.nextServer,
+      serveOrder: state.serveOrder,
+      serveIndex: state.serveIndex,
+      serverHand: state.serverHand,
+      status: state.status,
+      rules: state.rules,
+    },
+    events,
+  };
+}
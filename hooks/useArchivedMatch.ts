@@ -0,0 +1,53 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ArchivedMatch } from "@/types/match";
+import { getArchivedMatch } from "@/utils/matchArchive";
+
+/**
+ * @typedef {object} ArchivedMatchReturn
+ * @description The return object from the useArchivedMatch hook.
+ * @property {ArchivedMatch | null} match - The archived match, once read (null if it is not in the archive).
+ * @property {boolean} isLoading - True while the match is being read.
+ * @property {string | null} error - Set if there is no match id or the archive could not be read.
+ */
+
+/**
+ * @summary
+ * A custom hook that reads one match from the archive.
+ *
+ * @description
+ * Reads the match from IndexedDB once the page has loaded (IndexedDB is
+ * browser-only), and again whenever the identifier changes.
+ *
+ * @param {string | null} id - The identifier of the match to read.
+ * @returns {ArchivedMatchReturn} An object containing the match and its loading state.
+ */
+export function useArchivedMatch(id: string | null) {
+  /** The last match read, with the identifier it was read for. */
+  const [loaded, setLoaded] = useState<{
+    id: string;
+    match: ArchivedMatch | null;
+  } | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  /** Side effect to read the match whenever the identifier changes. */
+  useEffect(() => {
+    if (id === null) return;
+    getArchivedMatch(id)
+      .then((match) => {
+        setLoaded({ id, match });
+        setReadError(null);
+      })
+      .catch(() => setReadError("The match archive could not be read."));
+  }, [id]);
+
+  const error = id === null ? "No match was chosen." : readError;
+  const isCurrent = loaded !== null && loaded.id === id;
+
+  return {
+    match: isCurrent ? loaded.match : null,
+    isLoading: error === null && !isCurrent,
+    error,
+  };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ArchivedMatch } from "@/types/match";
+import { loadLiveMatchRecord } from "@/utils/matchStorage";
+
+/**
+ * @typedef {object} LiveMatchRecordReturn
+ * @description The return object from the useLiveMatchRecord hook.
+ * @property {ArchivedMatch | null} match - The match in progress, once read (null if there is none).
+ * @property {boolean} isLoading - True until the saved match has been read.
+ */
+
+/**
+ * @summary
+ * A custom hook that reads the match in progress, as auto-saved by the live page.
+ *
+ * @description
+ * Local storage is only available in the browser, so the saved match is read
+ * after the first render; the `Promise.resolve()` defers the state update to
+ * the next tick, as in `useMatchLogic`. The record is read once: reloading
+ * the page shows the rallies played since.
+ *
+ * @returns {LiveMatchRecordReturn} An object containing the match and its loading state.
+ */
+export function useLiveMatchRecord() {
+  const [loaded, setLoaded] = useState<{ match: ArchivedMatch | null } | null>(
+    null
+  );
+
+  /** Side effect to read the saved match once, on load. */
+  useEffect(() => {
+    Promise.resolve().then(() => setLoaded({ match: loadLiveMatchRecord() }));
+  }, []);
+
+  return {
+    match: loaded?.match ?? null,
+    isLoading: loaded === null,
+  };
+}
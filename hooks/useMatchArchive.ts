@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { ArchivedMatch } from "@/types/match";
+import {
+  ArchiveFilters,
+  archiveMatches,
+  deleteArchivedMatches,
+  EMPTY_ARCHIVE_FILTERS,
+  filterArchivedMatches,
+  listArchivedMatches,
+  toDateInputValue,
+} from "@/utils/matchArchive";
+import { createMatchFile, readMatchFile } from "@/utils/matchFile";
+import { downloadFile } from "@/utils/download";
+
+/**
+ * @typedef {object} MatchArchiveReturn
+ * @description The return object from the useMatchArchive hook.
+ * @property {ArchivedMatch[]} matches - The archived matches that pass the filters, most recent first.
+ * @property {number} totalCount - The number of archived matches, before filtering.
+ * @property {{ id: string; name: string }[]} ruleSetOptions - The rule sets used in the archive, for the format filter.
+ * @property {boolean} isLoading - True until the archive has been read.
+ * @property {string | null} error - Set if the archive could not be read or changed.
+ * @property {string[]} importErrors - Why the last imported file was rejected.
+ * @property {string | null} importNotice - How many matches the last import added.
+ * @property {ArchiveFilters} filters - The current filters.
+ * @property {string[]} selectedIds - The matches selected for export or deletion.
+ * @property {ArchivedMatch | null} openedMatch - The match shown in the history modal.
+ * @property {(field: keyof ArchiveFilters, value: string) => void} setFilter - Handler to change one filter.
+ * @property {() => void} clearFilters - Handler to reset every filter.
+ * @property {(id: string) => void} toggleSelected - Handler to select or unselect a match.
+ * @property {() => void} toggleSelectAll - Handler to select every shown match, or none.
+ * @property {(ids: string[]) => void} deleteMatches - Handler to delete matches from the archive.
+ * @property {(ids?: string[]) => void} exportMatches - Handler to download matches (or the whole archive) as a match file.
+ * @property {(file: File) => void} importFile - Handler to add the matches of a match file to the archive.
+ * @property {(match: ArchivedMatch | null) => void} setOpenedMatch - Setter for the match shown in the history modal.
+ */
+
+/**
+ * @summary
+ * A custom hook that manages the match archive screen.
+ *
+ * @description
+ * Reads the archived matches from IndexedDB once, on load, and keeps the
+ * filters, the selection and the match opened in the history modal. Deleted
+ * matches are removed from the list once IndexedDB confirms the deletion.
+ * Matches are exported to and imported from match files (`utils/matchFile.ts`);
+ * an imported match replaces the archived match with the same identifier.
+ *
+ * @returns {MatchArchiveReturn} An object containing the archive state and handlers.
+ */
+export function useMatchArchive() {
+  const [allMatches, setAllMatches] = useState<ArchivedMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<ArchiveFilters>(EMPTY_ARCHIVE_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [openedMatch, setOpenedMatch] = useState<ArchivedMatch | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+
+  /** Side effect to read the archive once, on load (IndexedDB is browser-only). */
+  useEffect(() => {
+    listArchivedMatches()
+      .then(setAllMatches)
+      .catch(() => setError("The match archive could not be read."))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const matches = useMemo(
+    () => filterArchivedMatches(allMatches, filters),
+    [allMatches, filters]
+  );
+
+  /** Every rule set used in the archive, once each, by name. */
+  const ruleSetOptions = useMemo(() => {
+    const byId = new Map(allMatches.map((m) => [m.rules.id, m.rules.name]));
+    return [...byId]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [allMatches]);
+
+  /**
+   * Changes one filter.
+   * @param {keyof ArchiveFilters} field - The filter to change.
+   * @param {string} value - The new value.
+   */
+  const setFilter = (field: keyof ArchiveFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [field]: value }));
+
+  /** Resets every filter. */
+  const clearFilters = () => setFilters(EMPTY_ARCHIVE_FILTERS);
+
+  /**
+   * Selects or unselects a match for export or deletion.
+   * @param {string} id - The match identifier.
+   */
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+
+  /** Selects every shown match, or clears the selection if they all are. */
+  const toggleSelectAll = () => {
+    const shownIds = matches.map((m) => m.id);
+    const allSelected = shownIds.every((id) => selectedIds.includes(id));
+    setSelectedIds(allSelected ? [] : shownIds);
+  };
+
+  /**
+   * Deletes matches from the archive.
+   * @param {string[]} ids - The identifiers of the matches to delete.
+   */
+  const deleteMatches = (ids: string[]) => {
+    deleteArchivedMatches(ids)
+      .then(() => {
+        setAllMatches((prev) => prev.filter((m) => !ids.includes(m.id)));
+        setSelectedIds((prev) => prev.filter((id) => !ids.includes(id)));
+      })
+      .catch(() => setError("The matches could not be deleted."));
+  };
+
+  /**
+   * Downloads matches as a match file.
+   * @param {string[]} [ids] - The identifiers of the matches to export (all if omitted).
+   */
+  const exportMatches = (ids?: string[]) => {
+    const exported = ids
+      ? allMatches.filter((m) => ids.includes(m.id))
+      : allMatches;
+    if (exported.length === 0) return;
+    const kind = exported.length === 1 ? "match" : "matches";
+    downloadFile(
+      `badminton-${kind}-${toDateInputValue(Date.now())}.json`,
+      createMatchFile(exported),
+      "application/json"
+    );
+  };
+
+  /**
+   * Validates a match file and adds its matches to the archive.
+   * @param {File} file - The file chosen by the user.
+   */
+  const importFile = async (file: File) => {
+    setImportErrors([]);
+    setImportNotice(null);
+
+    let contents: string;
+    try {
+      contents = await file.text();
+    } catch {
+      setImportErrors(["The file could not be read."]);
+      return;
+    }
+    const result = readMatchFile(contents);
+    if (!result.ok) {
+      setImportErrors(result.errors);
+      return;
+    }
+    try {
+      await archiveMatches(result.matches);
+    } catch {
+      setError("The imported matches could not be saved.");
+      return;
+    }
+    const imported = new Set(result.matches.map((m) => m.id));
+    setAllMatches((prev) =>
+      [...prev.filter((m) => !imported.has(m.id)), ...result.matches].sort(
+        (a, b) => b.archivedAt - a.archivedAt
+      )
+    );
+    const n = result.matches.length;
+    setImportNotice(`Imported ${n} ${n === 1 ? "match" : "matches"}.`);
+  };
+
+  return {
+    matches,
+    totalCount: allMatches.length,
+    ruleSetOptions,
+    isLoading,
+    error,
+    importErrors,
+    importNotice,
+    filters,
+    selectedIds,
+    openedMatch,
+    setFilter,
+    clearFilters,
+    toggleSelected,
+    toggleSelectAll,
+    deleteMatches,
+    exportMatches,
+    importFile,
+    setOpenedMatch,
+  };
+}
@@ -1,10 +1,48 @@
 "use client";
 
-import { useReducer, useState, useEffect } from "react";
-import { GameSnapshot, PointSnapshot, Players } from "@/types/match";
-import { getMaxPoint } from "@/utils/getMaxPoint";
+import { useState, useEffect, useMemo, useRef } from "react";
+import {
+  CardColor,
+  EditedScore,
+  MatchEvent,
+  MatchLog,
+  MatchOutcome,
+  MatchState,
+  Players,
+  ResumeScore,
+  RuleSet,
+} from "@/types/match";
 import { useTimer } from "@/hooks/useTimer";
-import { matchReducer, initialState } from "@/utils/matchReducer";
+import {
+  applyEvent,
+  createDiagnosticReport,
+  createMatch,
+  getCurrentServiceCourt,
+  getGameHistory,
+  getMatchState,
+  getNextGamePlayers,
+  hasPlayStarted,
+  initialLog,
+  isMatchStarted,
+  isValidEditedScore as isPlayableEditedScore,
+  redoStep,
+  StateIssue,
+  suggestServiceFix,
+  undoStep,
+  validateMatchState,
+} from "@/engine";
+import { getIntervalRemaining } from "@/utils/intervals";
+import {
+  clearLiveMatch,
+  loadLiveMatch,
+  saveLiveMatch,
+  SavedMatch,
+} from "@/utils/matchStorage";
+import {
+  archiveMatch,
+  createArchivedMatch,
+  createMatchId,
+} from "@/utils/matchArchive";
 
 /**
  * @typedef {object} MatchLogicReturn
@@ -20,39 +58,119 @@ import { matchReducer, initialState } from "@/utils/matchReducer";
  * @property {"A" | "B" | null} serverSide - The side currently serving.
  * @property {string | null} currentServer - The player currently serving.
  * @property {string | null} currentReceiver - The player currently receiving.
- * @property {number} scoringSystem - The target score (e.g., 21).
+ * @property {RuleSet} rules - The scoring format (target, win-by, cap, games per match).
+ * @property {MatchStatus} status - The lifecycle status of the match.
+ * @property {"A" | "B" | null} matchWinner - The side that won the match, if finished.
+ * @property {MatchOutcome | null} outcome - How the match was decided, if finished.
+ * @property {CardRecord[]} cards - Every misconduct card issued in the match.
+ * @property {ServiceCorrection[]} serviceCorrections - Every service court error corrected in the match.
  * @property {boolean} showMatchHistoryModal - Visibility state for the history modal.
  * @property {boolean} showHelpModal - Visibility state for the help modal.
  * @property {boolean} showSetFinishModal - Visibility state for the set finish modal.
+ * @property {boolean} showCardModal - Visibility state for the misconduct card modal.
+ * @property {boolean} showEndMatchModal - Visibility state for the end match modal.
+ * @property {boolean} showServiceCorrectionModal - Visibility state for the service correction modal.
+ * @property {boolean} showEditScoreModal - Visibility state for the score edit modal.
  * @property {GameSnapshot | null} setFinishData - Data for the just-completed set.
  * @property {GameSnapshot[]} historyForModal - The complete match history, including any in-progress game.
  * @property {boolean} isMatchStarted - True if player names have been set.
+ * @property {boolean} isMatchFinished - True once one side has won the match.
+ * @property {boolean} hasPlayStarted - True once the first rally has been played.
+ * @property {string | null} scoresheetHref - The printable scoresheet of the live or just-finished match, if there is one.
+ * @property {ServiceCourt | null} serviceCourt - The service court ("right"/"left") of the next rally's server and receiver.
+ * @property {boolean} isCourtViewFlipped - True if the L/R court hints are shown mirrored.
+ * @property {"A" | "B"} leftSide - The team currently on the left end of the court.
+ * @property {EndChangeReason | null} endChange - Set while the "change ends" prompt should be shown.
+ * @property {1 | 2 | null} serverHand - The serving hand in side-out doubles, or null.
+ * @property {SettingOffer | null} settingOffer - Set while a side-out setting decision is pending.
+ * @property {IntervalRecord | null} currentInterval - The interval currently running, if any.
+ * @property {number | null} intervalRemaining - Seconds left in the running interval.
+ * @property {MatchEvent[]} events - The match event log the state is derived from.
+ * @property {SavedMatchPreview | null} savedMatchPreview - The score of a saved match that can be resumed after a reload.
+ * @property {StateIssue[]} stateIssues - The broken state invariants (always empty in production).
  *
  * @property {(time: number) => string} formatTime - Function to format seconds to HH:MM:SS.
  * @property {(side: "A" | "B") => void} handleIncrement - Handler to add a point.
+ * @property {() => void} handleLet - Handler to record a let (a replayed rally).
+ * @property {(player: string, color: CardColor) => void} handleIssueCard - Handler to issue a misconduct card.
+ * @property {(serverName: string, receiverName: string) => void} handleCorrectService - Handler to correct a service court error.
+ * @property {(score: EditedScore) => void} handleEditScore - Handler to set the score by hand.
+ * @property {(score: EditedScore) => boolean} isValidEditedScore - Whether play can continue from a score entered by hand.
+ * @property {(outcome: MatchOutcome, side: "A" | "B") => void} handleEndMatch - Handler to end the match by retirement, walkover or disqualification.
  * @property {function} handleStartMatch - Handler to start a new match.
  * @property {() => void} handleUndo - Handler to undo the last point.
+ * @property {() => void} handleRedo - Handler to re-apply the last undone point.
  * @property {() => void} handlePause - Handler to pause the timer.
  * @property {() => void} handleResume - Handler to resume the timer.
  * @property {(server: string, receiver: string) => void} continueNextSet - Handler to start the next set.
  * @property {() => void} resetMatchHistory - Handler to clear the match history.
+ * @property {() => void} openMatchSummary - Handler to reopen the final match summary.
+ * @property {() => void} closeMatchSummary - Handler to close the final match summary.
+ * @property {() => void} dismissEndChange - Handler to acknowledge the "change ends" prompt.
+ * @property {(setGame: boolean) => void} chooseSetting - Handler to answer a side-out setting offer.
+ * @property {() => void} toggleCourtView - Handler to mirror the L/R court hints.
+ * @property {() => void} fixServeState - Handler to reset the server and receiver after a broken invariant.
+ * @property {() => void} endInterval - Handler to end the running interval and resume play.
+ * @property {() => void} resumeSavedMatch - Handler to restore the saved match, with its timer.
+ * @property {() => void} discardSavedMatch - Handler to delete the saved match.
  * @property {React.Dispatch<React.SetStateAction<boolean>>} setShowMatchHistoryModal - Setter for the history modal.
+ * @property {React.Dispatch<React.SetStateAction<boolean>>} setShowCardModal - Setter for the misconduct card modal.
+ * @property {React.Dispatch<React.SetStateAction<boolean>>} setShowEndMatchModal - Setter for the end match modal.
+ * @property {React.Dispatch<React.SetStateAction<boolean>>} setShowServiceCorrectionModal - Setter for the service correction modal.
+ * @property {React.Dispatch<React.SetStateAction<boolean>>} setShowEditScoreModal - Setter for the score edit modal.
  */
 
+/** How often the running match time is saved between actions (milliseconds). */
+const TIME_SAVE_INTERVAL_MS = 15000;
+
+/**
+ * @summary Archives a match once its first rally has been played.
+ * @description Archiving runs in the background; a failure (e.g. storage
+ * disabled) only loses the archive entry, never the match itself.
+ * @param {string | null} id - The match identifier.
+ * @param {MatchState} state - The state to archive.
+ * @param {number} time - The match time, for the game in progress.
+ */
+const archive = (id: string | null, state: MatchState, time: number) => {
+  if (!id || !hasPlayStarted(state)) return;
+  archiveMatch(createArchivedMatch(id, state, time)).catch((error) =>
+    console.warn("Could not archive the match:", error)
+  );
+};
+
+/**
+ * @summary The players, score and match time of a saved match, for the resume prompt.
+ */
+export type SavedMatchPreview = {
+  players: Players;
+  pointsA: number;
+  pointsB: number;
+  setsA: number;
+  setsB: number;
+  time: number;
+};
+
 /**
  * @summary
  * A custom hook that acts as the primary state manager for the match.
  *
  * @description
- * This hook combines the `matchReducer` (for core game logic) with `useTimer` (for timekeeping)
- * and local `useState` hooks (for modal visibility). It exposes a single, clean API
- * (state and handlers) for the main `Page` component to consume.
+ * This hook wraps the framework-agnostic scoring engine (`@/engine`): it holds
+ * the match event log and the state derived from it, and adds `useTimer`
+ * (for timekeeping) and local `useState` hooks (for modal visibility). All
+ * scoring rules live in the engine; the hook only supplies the match time. It
+ * exposes a single, clean API (state and handlers) for the main `Page` component to consume.
  *
  * @returns {MatchLogicReturn} An object containing all necessary state and handlers for the match UI.
  */
 export function useMatchLogic() {
-  // --- Core Match State (Managed by Reducer) ---
-  const [state, dispatch] = useReducer(matchReducer, initialState);
+  // --- Core Match State (Derived from the Event Log) ---
+  const [log, setLog] = useState<MatchLog>(initialLog);
+  const state = useMemo(() => getMatchState(log), [log]);
+
+  /** Appends an event to the match log. */
+  const record = (event: MatchEvent) =>
+    setLog((prev) => applyEvent(prev, event));
 
   // --- Timer State (Local) ---
   const [isRunning, setIsRunning] = useState(false);
@@ -63,79 +181,343 @@ export function useMatchLogic() {
   const [showMatchHistoryModal, setShowMatchHistoryModal] = useState(false);
   const [showHelpModal, setShowHelpModal] = useState(false);
   const [showSetFinishModal, setShowSetFinishModal] = useState(false);
+  const [showCardModal, setShowCardModal] = useState(false);
+  const [showEndMatchModal, setShowEndMatchModal] = useState(false);
+  const [showServiceCorrectionModal, setShowServiceCorrectionModal] =
+    useState(false);
+  const [showEditScoreModal, setShowEditScoreModal] = useState(false);
+
+  // --- Match Archive (IndexedDB) ---
+  /** The archive identifier of the current match, kept across reloads. */
+  const [matchId, setMatchId] = useState<string | null>(null);
+
+  // --- Auto-save (Local Storage) ---
+  /** A match saved before the page was reloaded, until it is resumed or discarded. */
+  const [savedMatch, setSavedMatch] = useState<SavedMatch | null>(null);
+  /** Nothing is saved until the saved match has been looked for, so it is never overwritten. */
+  const [hasLoadedSave, setHasLoadedSave] = useState(false);
+
+  // --- Display Preferences (Local) ---
+  /** Shows the L/R court hints mirrored, for an umpire on the other side. */
+  const [isCourtViewFlipped, setIsCourtViewFlipped] = useState(false);
 
   const setCurrentServer = (serverName: string) => {
-    dispatch({ type: "SET_NEXT_SERVER", payload: serverName });
+    record({ type: "SET_NEXT_SERVER", payload: serverName });
   };
   const setCurrentReceiver = (receiverName: string) => {
-    dispatch({ type: "SET_NEXT_RECEIVER", payload: receiverName });
+    record({ type: "SET_NEXT_RECEIVER", payload: receiverName });
   };
 
   /**
-   * @summary Side effect to automatically open the SetFinishModal.
-   * @description This effect listens for changes to `state.setFinishData`.
+   * @summary Side effect to automatically open (and close) the SetFinishModal.
+   * @description This effect listens for changes to `state.setFinishData`, keyed
+   * by its game number since every replay of the log yields a new object.
    * When the reducer populates this data (signaling a set has ended),
    * this effect calls `setShowSetFinishModal(true)` to display the modal.
+   * A match ended early (e.g., by retirement) opens it too, for the summary.
+   * When an undo reopens the game, the data is cleared and the modal closes.
    * The `Promise.resolve()` ensures `setState` runs in the next tick,
    * avoiding synchronous `setState` warnings within an effect.
    */
+  const finishedGameNumber = state.setFinishData?.gameNumber ?? null;
+  const isMatchFinished = state.status === "MATCH_FINISHED";
   useEffect(() => {
-    if (state.setFinishData) {
+    if (finishedGameNumber !== null || isMatchFinished) {
       Promise.resolve().then(() => setShowSetFinishModal(true));
+    } else {
+      Promise.resolve().then(() => setShowSetFinishModal(false));
+    }
+  }, [finishedGameNumber, isMatchFinished]);
+
+  /**
+   * The invariants the current state breaks. Only checked in development, so
+   * a bad state shows up while testing instead of silently spreading.
+   */
+  const stateIssues = useMemo<StateIssue[]>(
+    () =>
+      process.env.NODE_ENV === "production" ? [] : validateMatchState(state),
+    [state]
+  );
+
+  /**
+   * @summary Side effect to log a diagnostic report when an invariant breaks.
+   * @description The report holds the serve state and the full event log, so
+   * it can be attached to a bug report and replayed.
+   */
+  useEffect(() => {
+    if (stateIssues.length === 0) return;
+    console.warn(
+      "Match state invariants failed:",
+      JSON.stringify(createDiagnosticReport(state, log.events, stateIssues))
+    );
+  }, [stateIssues, state, log.events]);
+
+  /**
+   * @summary Side effect to look for a saved match once, on load.
+   * @description Local storage is only available in the browser, so this
+   * runs after the first render; the `Promise.resolve()` defers the state
+   * updates to the next tick, as in the effects above.
+   */
+  useEffect(() => {
+    Promise.resolve().then(() => {
+      setSavedMatch(loadLiveMatch());
+      setHasLoadedSave(true);
+    });
+  }, []);
+
+  /** The latest match time, so the saves below need not re-run every second. */
+  const timeRef = useRef(time);
+  useEffect(() => {
+    timeRef.current = time;
+  }, [time]);
+
+  /**
+   * @summary Side effect to auto-save the live match.
+   * @description The log, timer and pause status are saved after every
+   * event and change of the timer's status. The match time alone is saved
+   * every `TIME_SAVE_INTERVAL_MS` while the timer runs, and when the page is
+   * hidden or closed, rather than on every tick. A finished match is not
+   * resumed, so its save is removed. Nothing is saved while a saved match is
+   * waiting to be resumed or discarded.
+   */
+  const isLiveMatch = isMatchStarted(state) && !isMatchFinished;
+  const canSave = hasLoadedSave && !savedMatch;
+  useEffect(() => {
+    if (!canSave) return;
+    if (!isLiveMatch) {
+      if (isMatchFinished) clearLiveMatch();
+      return;
+    }
+
+    const save = () =>
+      saveLiveMatch({
+        log,
+        time: timeRef.current,
+        isRunning,
+        isPaused,
+        matchId: matchId ?? undefined,
+      });
+    const saveIfHidden = () => {
+      if (document.visibilityState === "hidden") save();
+    };
+
+    save();
+    const interval =
+      isRunning && !isPaused ? setInterval(save, TIME_SAVE_INTERVAL_MS) : null;
+    document.addEventListener("visibilitychange", saveIfHidden);
+    window.addEventListener("pagehide", save);
+    return () => {
+      if (interval) clearInterval(interval);
+      document.removeEventListener("visibilitychange", saveIfHidden);
+      window.removeEventListener("pagehide", save);
+    };
+  }, [
+    canSave,
+    isLiveMatch,
+    isMatchFinished,
+    log,
+    isRunning,
+    isPaused,
+    matchId,
+  ]);
+
+  /**
+   * @summary Side effect to archive the match once it is finished.
+   * @description The ref makes sure this runs once per finish, not on every
+   * later state or tick. An undo can reopen the match; finishing it again
+   * replaces the archive entry, as it keeps the same identifier.
+   */
+  const archivedMatchIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isMatchFinished) {
+      archivedMatchIdRef.current = null;
+      return;
+    }
+    if (archivedMatchIdRef.current === matchId) return;
+    archivedMatchIdRef.current = matchId;
+    archive(matchId, state, time);
+  }, [isMatchFinished, matchId, state, time]);
+
+  /** The score of the saved match, shown in the resume prompt. */
+  const savedMatchPreview = useMemo<SavedMatchPreview | null>(() => {
+    if (!savedMatch) return null;
+    const saved = getMatchState(savedMatch.log);
+    return {
+      players: saved.players,
+      pointsA: saved.pointsA,
+      pointsB: saved.pointsB,
+      setsA: saved.setsA,
+      setsB: saved.setsB,
+      time: savedMatch.time,
+    };
+  }, [savedMatch]);
+
+  /** Seconds left in the running interval, counted down on the match clock. */
+  const intervalRemaining = state.currentInterval
+    ? getIntervalRemaining(state.currentInterval, time)
+    : null;
+
+  /**
+   * @summary Side effect to end an interval once its countdown reaches zero.
+   * @description Like the SetFinishModal effect above, the dispatch is deferred
+   * to the next tick to avoid dispatching synchronously within an effect.
+   */
+  useEffect(() => {
+    if (intervalRemaining === 0) {
+      Promise.resolve().then(() =>
+        record({ type: "END_INTERVAL", payload: { time } })
+      );
     }
-  }, [state.setFinishData]);
+  }, [intervalRemaining, time]);
 
   // --- Handlers (Wrappers for dispatch) ---
 
   /**
-   * Dispatches an 'INCREMENT' action to the reducer.
+   * Records an 'INCREMENT' event.
    * @param {"A" | "B"} side - The side that won the point.
    */
   const handleIncrement = (side: "A" | "B") => {
-    dispatch({
+    record({
       type: "INCREMENT",
       payload: {
         side,
-        maxPoint: getMaxPoint(state.scoringSystem),
         time,
       },
     });
   };
 
+  /** Records a 'LET' event: the rally is replayed and no point is awarded. */
+  const handleLet = () => record({ type: "LET", payload: { time } });
+
+  /**
+   * Records an 'ISSUE_CARD' event and closes the card modal.
+   * @param {string} player - The player receiving the card.
+   * @param {CardColor} color - The card: warning, fault or disqualification.
+   */
+  const handleIssueCard = (player: string, color: CardColor) => {
+    record({ type: "ISSUE_CARD", payload: { player, color, time } });
+    setShowCardModal(false);
+    // A disqualification ends the match
+    if (color === "BLACK") setIsRunning(false);
+  };
+
+  /**
+   * Records a 'CORRECT_SERVICE' event and closes the correction modal.
+   * @param {string} serverName - The player who should be serving.
+   * @param {string} receiverName - The player who should be receiving.
+   */
+  const handleCorrectService = (serverName: string, receiverName: string) => {
+    record({
+      type: "CORRECT_SERVICE",
+      payload: { serverName, receiverName, time },
+    });
+    setShowServiceCorrectionModal(false);
+  };
+
+  /**
+   * Records an 'EDIT_SCORE' event and closes the score edit modal.
+   * @param {EditedScore} score - The corrected points, games and serving side.
+   */
+  const handleEditScore = (score: EditedScore) => {
+    record({ type: "EDIT_SCORE", payload: score });
+    setShowEditScoreModal(false);
+  };
+
+  /**
+   * Checks whether play can continue from a score entered by hand.
+   * @param {EditedScore} score - The points and games entered.
+   * @returns {boolean} `true` if neither the game nor the match would be over.
+   */
+  const isValidEditedScore = (score: EditedScore) =>
+    isPlayableEditedScore(state, score);
+
+  /**
+   * Records an 'END_MATCH' event, closes the modal and stops the timer.
+   * @param {MatchOutcome} outcome - Retirement, walkover or disqualification.
+   * @param {"A" | "B"} side - The side that loses the match.
+   */
+  const handleEndMatch = (
+    outcome: Exclude<MatchOutcome, "COMPLETED">,
+    side: "A" | "B"
+  ) => {
+    record({ type: "END_MATCH", payload: { outcome, side, time } });
+    setShowEndMatchModal(false);
+    setIsRunning(false);
+  };
+
   /**
-   * Dispatches a 'START_MATCH' action to the reducer and resets/starts the timer.
+   * Starts a new match log (a 'START_MATCH' event) and resets/starts the timer.
    * @param {Players} newPlayers - The player configuration.
    * @param {"A" | "B"} firstServe - The side serving first.
    * @param {string} firstServerName - The specific player serving first.
    * @param {string} opponentReceiverName - The specific player receiving first.
-   * @param {number} [scoringSystemParam] - The optional preset scoring system.
+   * @param {RuleSet} [rulesParam] - The optional scoring format (defaults to BWF 21-point).
+   * @param {ResumeScore} [resumeFrom] - The optional score to resume from, instead of 0-0.
    */
   const handleStartMatch = (
     newPlayers: Players,
     firstServe: "A" | "B",
     firstServerName: string,
     opponentReceiverName: string,
-    scoringSystemParam?: number
+    rulesParam?: RuleSet,
+    resumeFrom?: ResumeScore
   ) => {
-    dispatch({
-      type: "START_MATCH",
-      payload: {
+    // The match being replaced is archived as abandoned
+    if (!isMatchFinished) archive(matchId, state, time);
+    setMatchId(createMatchId());
+    setLog(
+      createMatch({
         newPlayers,
         firstServe,
         firstServerName,
         opponentReceiverName,
-        scoringSystemParam,
-        startTime: 0,
-      },
-    });
+        rulesParam,
+        resumeFrom,
+      })
+    );
     // Reset timer & run
     setTime(0);
     setIsRunning(true);
     setIsPaused(false);
+    setShowSetFinishModal(false);
+    // The new match replaces any saved one
+    setSavedMatch(null);
+  };
+
+  /** Restores the saved match: its log, elapsed time and pause status. */
+  const resumeSavedMatch = () => {
+    if (!savedMatch) return;
+    setLog(savedMatch.log);
+    setMatchId(savedMatch.matchId ?? createMatchId());
+    setTime(savedMatch.time);
+    setIsRunning(savedMatch.isRunning);
+    setIsPaused(savedMatch.isPaused);
+    setSavedMatch(null);
+  };
+
+  /** Archives the saved match as abandoned, deletes it and keeps the start screen. */
+  const discardSavedMatch = () => {
+    if (!savedMatch) return;
+    archive(
+      savedMatch.matchId ?? createMatchId(),
+      getMatchState(savedMatch.log),
+      savedMatch.time
+    );
+    clearLiveMatch();
+    setSavedMatch(null);
+  };
+
+  /**
+   * Removes the last rally from the log.
+   * Undoing the match-winning point reopens the match, so the timer restarts.
+   */
+  const handleUndo = () => {
+    setLog(undoStep);
+    if (state.status === "MATCH_FINISHED") setIsRunning(true);
   };
 
-  /** Dispatches an 'UNDO' action to revert the last point. */
-  const handleUndo = () => dispatch({ type: "UNDO" });
+  /** Re-appends the last undone rally to the log. */
+  const handleRedo = () => setLog(redoStep);
 
   /** Pauses the match timer. */
   const handlePause = () => setIsPaused(true);
@@ -144,88 +526,85 @@ export function useMatchLogic() {
   const handleResume = () => setIsPaused(false);
 
   /**
-   * Dispatches a 'CONTINUE_NEXT_SET' action to the reducer and closes the modal.
+   * Records a 'CONTINUE_NEXT_SET' event and closes the modal.
    * @param {string} nextServerName - The server selected in the modal.
    * @param {string} nextReceiverName - The receiver selected in the modal.
    */
   const continueNextSet = () => {
-    if (!state.setFinishData) return;
-
-    const winnerTeam =
-      state.setFinishData.winnerSide === "A"
-        ? state.players.teamA
-        : state.players.teamB;
-    const loserTeam =
-      state.setFinishData.winnerSide === "A"
-        ? state.players.teamB
-        : state.players.teamA;
-
-    const nextServerName = state.currentServer || winnerTeam[0];
-    const nextReceiverName = state.currentReceiver || loserTeam[0];
+    const nextGamePlayers = getNextGamePlayers(state);
+    if (!nextGamePlayers) return;
 
-    dispatch({
+    record({
       type: "CONTINUE_NEXT_SET",
-      payload: {
-        startTime: time,
-        nextServerName,
-        nextReceiverName,
-      },
+      payload: { startTime: time, ...nextGamePlayers },
     });
     setShowSetFinishModal(false);
   };
 
-  /** Dispatches a 'RESET_HISTORY' action and closes the history modal. */
+  /** Reopens the final match summary (shown in the SetFinishModal). */
+  const openMatchSummary = () => {
+    if (state.status === "MATCH_FINISHED") setShowSetFinishModal(true);
+  };
+
+  /** Closes the final match summary and stops the match timer. */
+  const closeMatchSummary = () => {
+    setShowSetFinishModal(false);
+    setIsRunning(false);
+  };
+
+  /** Records an 'END_INTERVAL' event when play resumes before the countdown ends. */
+  const endInterval = () =>
+    record({ type: "END_INTERVAL", payload: { time } });
+
+  /** Records a 'DISMISS_END_CHANGE' event once the teams have changed ends. */
+  const dismissEndChange = () => record({ type: "DISMISS_END_CHANGE" });
+
+  /**
+   * Records a 'CHOOSE_SETTING' event with the side's setting choice.
+   * @param {boolean} setGame - True to set the game, false to play on to the target.
+   */
+  const chooseSetting = (setGame: boolean) =>
+    record({ type: "CHOOSE_SETTING", payload: { setGame } });
+
+  /** Mirrors the L/R court hints for an umpire sitting on the other side. */
+  const toggleCourtView = () => setIsCourtViewFlipped((flipped) => !flipped);
+
+  /**
+   * Records a 'CORRECT_SERVICE' event with the suggested server and receiver,
+   * placing everyone in the courts the score requires.
+   */
+  const fixServeState = () => {
+    const fix = suggestServiceFix(state);
+    if (!fix) return;
+    record({ type: "CORRECT_SERVICE", payload: { ...fix, time } });
+  };
+
+  /**
+   * Records a 'RESET_HISTORY' event and closes the history modal. The games
+   * so far are archived first; the rest of the match is archived as a new one.
+   */
   const resetMatchHistory = () => {
-    dispatch({ type: "RESET_HISTORY" });
+    archive(matchId, state, time);
+    setMatchId(createMatchId());
+    record({ type: "RESET_HISTORY" });
     setShowMatchHistoryModal(false);
   };
 
   // --- Derived State (Calculated on each render) ---
 
-  /** Boolean flag indicating if a match is active. */
-  const isMatchStarted = state.players.teamA.length > 0;
-
-  /** A snapshot of the *very* latest state, used for the 'in-progress' game. */
-  const currentPointSnapshot: PointSnapshot = {
-    pointsA: state.pointsA,
-    setsA: state.setsA,
-    pointsB: state.pointsB,
-    setsB: state.setsB,
-    serverSide: state.serverSide,
-    currentServer: state.currentServer,
-    currentReceiver: state.currentReceiver,
-    nextServer: state.nextServer,
-    serveIndex: state.serveIndex,
-    players: {
-      teamA: [...state.players.teamA],
-      teamB: [...state.players.teamB],
-    },
-  };
+  /** All finished games *plus* the in-progress game, ready for the modal. */
+  const historyForModal = getGameHistory(state, time);
 
-  /** The current set's history *plus* the latest snapshot. */
-  const completePointHistory = [
-    ...state.currentSetPointHistory,
-    currentPointSnapshot,
-  ];
-
-  /** A 'GameSnapshot' object representing the game currently being played. */
-  const inProgressGame: GameSnapshot | null =
-    isMatchStarted && state.currentSetPointHistory.length > 0
-      ? {
-          gameNumber: state.matchHistory.length + 1,
-          pointsA: state.pointsA,
-          pointsB: state.pointsB,
-          winnerSide: null,
-          duration: time - state.currentSetStartTime,
-          pointHistory: completePointHistory,
-        }
+  /**
+   * The printable scoresheet: the live match is read from its auto-save, a
+   * finished one from the archive it was saved to on finishing.
+   */
+  const scoresheetHref = isLiveMatch
+    ? "/scoresheet?live"
+    : isMatchFinished && matchId && hasPlayStarted(state)
+      ? `/scoresheet?id=${encodeURIComponent(matchId)}`
       : null;
 
-  /** The final array of all finished games *plus* the in-progress game, ready for the modal. */
-  const historyForModal = inProgressGame
-    ? [...state.matchHistory, inProgressGame]
-    : state.matchHistory;
-
   /**
    * @summary Exposes the complete state and handlers for the Page component.
    * @description Note: State properties are returned individually (e.g., `pointsA: state.pointsA`)
@@ -243,7 +622,17 @@ export function useMatchLogic() {
     serverSide: state.serverSide,
     currentServer: state.currentServer,
     currentReceiver: state.currentReceiver,
-    scoringSystem: state.scoringSystem,
+    rules: state.rules,
+    status: state.status,
+    matchWinner: state.matchWinner,
+    outcome: state.outcome,
+    cards: state.cards,
+    serviceCorrections: state.serviceCorrections,
+    leftSide: state.leftSide,
+    endChange: state.endChange,
+    serverHand: state.serverHand,
+    settingOffer: state.settingOffer,
+    currentInterval: state.currentInterval,
     setFinishData: state.setFinishData,
     matchHistory: state.matchHistory,
 
@@ -253,22 +642,55 @@ export function useMatchLogic() {
     showMatchHistoryModal,
     showHelpModal,
     showSetFinishModal,
+    showCardModal,
+    showEndMatchModal,
+    showServiceCorrectionModal,
+    showEditScoreModal,
     historyForModal,
-    isMatchStarted,
+    isMatchStarted: isMatchStarted(state),
+    isMatchFinished,
+    hasPlayStarted: hasPlayStarted(state),
+    scoresheetHref,
+    serviceCourt: getCurrentServiceCourt(state),
+    isCourtViewFlipped,
+    intervalRemaining,
+    events: log.events,
+    savedMatchPreview,
+    stateIssues,
 
     // Handlers
     formatTime,
     handleIncrement,
+    handleLet,
+    handleIssueCard,
+    handleEndMatch,
+    handleCorrectService,
+    handleEditScore,
+    isValidEditedScore,
     handleStartMatch,
     handleUndo,
+    handleRedo,
     handlePause,
     handleResume,
     continueNextSet,
     resetMatchHistory,
+    openMatchSummary,
+    closeMatchSummary,
+    dismissEndChange,
+    chooseSetting,
+    toggleCourtView,
+    fixServeState,
+    endInterval,
+    resumeSavedMatch,
+    discardSavedMatch,
 
     // Setters (for Modals)
     setShowMatchHistoryModal,
     setShowHelpModal,
+    setShowCardModal,
+    setShowEndMatchModal,
+    setShowServiceCorrectionModal,
+    setShowEditScoreModal,
     setCurrentServer,
     setCurrentReceiver,
   };
@@ -1,7 +1,7 @@
 /**
  * @summary Represents a complete snapshot of the match state at a single point in time.
- * @description Used to store the history of each point within a game, enabling features like
- * "Undo" and point-by-point playback/analysis.
+ * @description Derived while replaying the `MatchLog` to record the history of each point
+ * within a game, enabling point-by-point playback/analysis.
  * @remarks This type is crucial for the `pointHistory` array in `GameSnapshot`.
  */
 export type PointSnapshot = {
@@ -21,12 +21,57 @@ export type PointSnapshot = {
   currentReceiver: string | null;
   /** The name of the next player in the serve rotation (for UI display). */
   nextServer: string | null;
-  /** The current index in the `serveOrder` array (0-3 for doubles). */
+  /** The current index in the `serveOrder` array (0-3 for doubles, 0-5 for triples). */
   serveIndex: number;
+  /** The server rotation in force for this game. */
+  serveOrder: string[];
+  /** The team on the left end of the court (from the umpire's view). */
+  leftSide: "A" | "B";
+  /** The number of lets played so far in this game. A rise with no score change marks a let. */
+  lets: number;
+  /** The number of manual score edits so far in this game. A rise marks an edit, not a rally. */
+  scoreEdits: number;
+  /**
+   * The number of rallies the serving side lost so far in this game under
+   * side-out scoring (no point scored, the serve passed on). A rise marks
+   * such a rally. Absent in games recorded before these rallies were kept.
+   */
+  servesLost?: number;
+  /**
+   * The target a side-out game was set to (e.g., 18 at 13-all), or null if it
+   * was not set. Absent in games recorded before setting was kept.
+   */
+  setTo?: number | null;
+  /**
+   * The match time (seconds) of the rally that led to this score, or the
+   * start of the game. Absent in games recorded before rally times were kept.
+   */
+  time?: number;
   /** The name of player. */
   players: { teamA: string[]; teamB: string[] };
 };
 
+/**
+ * @summary The kind of mandatory interval.
+ * @description `MID_GAME` (60 seconds) when the leading side first reaches the
+ * mid-game point, `BETWEEN_GAMES` (120 seconds) after a game ends.
+ */
+export type IntervalKind = "MID_GAME" | "BETWEEN_GAMES";
+
+/**
+ * @summary A log entry for one interval, stored in the game record.
+ */
+export type IntervalRecord = {
+  /** Whether this is the mid-game or the between-games interval. */
+  kind: IntervalKind;
+  /** The match time (seconds) when the interval started. */
+  startTime: number;
+  /** The allowed length of the interval in seconds. */
+  duration: number;
+  /** The match time when play resumed. 'null' while the interval is running. */
+  endTime: number | null;
+};
+
 /**
  * @summary Represents the final results and history of a single game (set).
  * @description A `GameSnapshot` is created at the end of each game and stored
@@ -42,10 +87,18 @@ export type GameSnapshot = {
   pointsB: number;
   /** The winning side. 'null' if the game is in progress. */
   winnerSide: "A" | "B" | null;
+  /** The match time (seconds) when the game started. */
+  startTime: number;
   /** The duration of the game in seconds. */
   duration: number;
   /** An array of all point snapshots recorded during this game, including the [0,0] state. */
   pointHistory: PointSnapshot[];
+  /** The intervals taken during this game and the one taken right after it. */
+  intervals: IntervalRecord[];
+  /** True if the game was cut short because the match ended by retirement or disqualification. */
+  incomplete: boolean;
+  /** True if only the final score was entered, when the match was resumed from a score. It has no point history. */
+  resumed: boolean;
 };
 
 /**
@@ -58,10 +111,183 @@ export interface Players {
   teamB: string[];
 }
 
+/**
+ * @summary The number of players on each side.
+ * @description `SINGLES` (1 v 1) and `DOUBLES` (2 v 2) follow the BWF laws.
+ * `TRIPLES` (3 v 3) is AirBadminton triples: there are no service courts, and
+ * each side rotates its server whenever it wins back the serve.
+ */
+export type TeamFormat = "SINGLES" | "DOUBLES" | "TRIPLES";
+
+/**
+ * @summary Describes the scoring format used for every game of a match.
+ * @description A `RuleSet` fully determines when a game is over (`target`,
+ * `winBy`, `cap`) and when the match is over (`gamesPerMatch`). Named presets
+ * live in the registry in `utils/ruleSets.ts`; custom rules use the id "custom".
+ */
+export interface RuleSet {
+  /** Unique identifier of the preset (e.g., "bwf-21"), or "custom". */
+  id: string;
+  /** Human readable name shown in the UI (e.g., "21 Points"). */
+  name: string;
+  /** The score a side must reach to win a game (e.g., 21). */
+  target: number;
+  /** The lead required to win once the target is reached (2 = deuce, 1 = no deuce). */
+  winBy: number;
+  /** The score that wins the game regardless of the lead (e.g., 30). 'null' means no cap. */
+  cap: number | null;
+  /** The match length in games (1, 3 or 5). */
+  gamesPerMatch: number;
+  /** Whether the mandatory 60s mid-game and 120s between-games intervals are taken. */
+  intervals: boolean;
+  /** The points each side starts every game with. Absent means no handicap (0-0). */
+  handicap?: Handicap;
+  /** How points are won. Absent means rally point scoring. */
+  scoring?: ScoringSystem;
+}
+
+/**
+ * @summary How points are won.
+ * @description `RALLY`: every rally scores a point for its winner (BWF since
+ * 2006). `SIDE_OUT`: only the serving side can score; losing a rally passes
+ * the serve to the partner (second hand) or to the other side (service over),
+ * with setting at the two scores below the target (the pre-2006 laws).
+ */
+export type ScoringSystem = "RALLY" | "SIDE_OUT";
+
+/**
+ * @summary An offer to "set" a side-out game that is tied near the target.
+ * @description At 13-all in a 15-point game, the side that reached 13 first
+ * may set the game to 18 or play on to 15; at 14-all it may set to 17.
+ */
+export type SettingOffer = {
+  /** The side that chooses (the side that first reached the tied score). */
+  side: "A" | "B";
+  /** The tied score (e.g., 13 for 13-all). */
+  tiedAt: number;
+  /** The game target if the side sets the game (e.g., 18). */
+  setTo: number;
+};
+
+/**
+ * @summary Per-team starting points for handicap play (e.g., 5-0 in a 21-point game).
+ */
+export type Handicap = {
+  /** The points Team A starts every game with. */
+  pointsA: number;
+  /** The points Team B starts every game with. */
+  pointsB: number;
+};
+
+/**
+ * @summary The lifecycle status of a match.
+ * @description `IN_PROGRESS` while games are still being played. `MATCH_FINISHED`
+ * once one side has won a majority of the games; a finished match rejects
+ * any further scoring or next-set actions.
+ */
+export type MatchStatus = "IN_PROGRESS" | "MATCH_FINISHED";
+
+/**
+ * @summary How a finished match was decided.
+ * @description `COMPLETED` when a side won the required number of games.
+ * Otherwise the match was ended early: `RETIRED` when a side could not
+ * continue (the score stands), `WALKOVER` when a side did not play at all,
+ * and `DISQUALIFIED` when a side was disqualified (e.g., a black card, BWF Law 16).
+ */
+export type MatchOutcome =
+  | "COMPLETED"
+  | "RETIRED"
+  | "WALKOVER"
+  | "DISQUALIFIED";
+
+/**
+ * @summary The colour of a misconduct card (BWF Law 16).
+ * @description `YELLOW` is a warning, `RED` a fault (the opponent wins the
+ * rally) and `BLACK` a disqualification (the opponent wins the match).
+ */
+export type CardColor = "YELLOW" | "RED" | "BLACK";
+
+/**
+ * @summary A misconduct card issued to a player, stored in the match record.
+ */
+export type CardRecord = {
+  /** The colour of the card. */
+  color: CardColor;
+  /** The name of the player who received the card. */
+  player: string;
+  /** The team of the player who received the card. */
+  side: "A" | "B";
+  /** The game in which the card was issued. */
+  gameNumber: number;
+  /** The score for Team A when the card was issued. */
+  pointsA: number;
+  /** The score for Team B when the card was issued. */
+  pointsB: number;
+  /** The match time (seconds) when the card was issued. */
+  time: number;
+};
+
+/**
+ * @summary A log entry for a service court error corrected by the umpire (BWF Law 12).
+ */
+export type ServiceCorrection = {
+  /** The game in which the correction was made. */
+  gameNumber: number;
+  /** The score for Team A when the correction was made. */
+  pointsA: number;
+  /** The score for Team B when the correction was made. */
+  pointsB: number;
+  /** The match time (seconds) when the correction was made. */
+  time: number;
+  /** The server and receiver before the correction. */
+  previousServer: string | null;
+  previousReceiver: string | null;
+  /** The corrected server and receiver. */
+  server: string;
+  receiver: string;
+};
+
+/**
+ * @summary A score entered by hand to correct the scoreboard.
+ */
+export type EditedScore = {
+  /** The points in the current game for Team A. */
+  pointsA: number;
+  /** The points in the current game for Team B. */
+  pointsB: number;
+  /** The games won so far by Team A. */
+  setsA: number;
+  /** The games won so far by Team B. */
+  setsB: number;
+  /** The side serving the next rally. */
+  servingSide: "A" | "B";
+};
+
+/**
+ * @summary The score a match is resumed from, when scoring starts part-way through.
+ */
+export type ResumeScore = {
+  /** The final scores of the games already played, oldest first. */
+  completedGames: { pointsA: number; pointsB: number }[];
+  /** The points in the current game for Team A. */
+  pointsA: number;
+  /** The points in the current game for Team B. */
+  pointsB: number;
+};
+
+/**
+ * @summary Why the teams must change ends.
+ * @description `BETWEEN_GAMES` after every game, `MID_GAME` when the leading
+ * side first reaches the mid-game point (11 in a 21-point game) in the
+ * deciding game, per the BWF Laws.
+ */
+export type EndChangeReason = "BETWEEN_GAMES" | "MID_GAME";
+
 /**
  * @summary Defines the complete state structure for the `matchReducer`.
- * @description This interface holds all persistent data for an active match,
- * including scores, player info, server/receiver state, and history.
+ * @description This interface holds all data for an active match, including
+ * scores, player info, server/receiver state, and history. It is derived by
+ * replaying the `MatchLog`, so it never needs to be stored itself.
  */
 export interface MatchState {
   // --- Score & Set State ---
@@ -83,6 +309,12 @@ export interface MatchState {
   currentSetPointHistory: PointSnapshot[];
   /** A history of all *completed* games in the match. */
   matchHistory: GameSnapshot[];
+  /** The number of lets played in the active game. Reset every game. */
+  lets: number;
+  /** The number of manual score edits in the active game. Reset every game. */
+  scoreEdits: number;
+  /** The number of serves lost (side-out scoring) in the active game. Reset every game. */
+  servesLost: number;
 
   // --- Server/Receiver State ---
   /** The team side currently holding the serve. */
@@ -93,16 +325,45 @@ export interface MatchState {
   currentReceiver: string | null;
   /** The next player in the serve rotation (for UI). */
   nextServer: string | null;
-  /** The BWF standard server rotation order (e.g., [A_Even, B_Odd, A_Odd, B_Even]). */
+  /**
+   * The server rotation order: BWF doubles [A_Even, B_Odd, A_Odd, B_Even], or
+   * in triples the two sides' players alternating ([A1, B1, A2, B2, A3, B3]).
+   */
   serveOrder: string[];
-  /** The current index (0-3) of the `serveOrder` array. */
+  /** The current index (0-3 for doubles, 0-5 for triples) of the `serveOrder` array. */
   serveIndex: number;
 
+  // --- Match Progress State ---
+  /** The lifecycle status of the match. */
+  status: MatchStatus;
+  /** The side that won the match. 'null' until the match is finished. */
+  matchWinner: "A" | "B" | null;
+  /** How the match was decided. 'null' until the match is finished. */
+  outcome: MatchOutcome | null;
+  /** Every misconduct card issued in the match, oldest first. */
+  cards: CardRecord[];
+  /** Every service court error corrected in the match, oldest first. */
+  serviceCorrections: ServiceCorrection[];
+
+  // --- Court Ends State ---
+  /** The team currently on the left end of the court (from the umpire's view). */
+  leftSide: "A" | "B";
+  /** Set when the teams have just changed ends; drives the "change ends" prompt until dismissed. */
+  endChange: EndChangeReason | null;
+
+  // --- Interval State ---
+  /** The interval currently running, if any. Drives the countdown overlay. */
+  currentInterval: IntervalRecord | null;
+  /** The completed intervals of the *current* game. Reset every game. */
+  currentSetIntervals: IntervalRecord[];
+
   // --- Config & Modal State ---
-  /** The target score for the game (e.g., 21). */
-  scoringSystem: number;
+  /** The scoring format (target, win-by margin, cap and games per match). */
+  rules: RuleSet;
   /** The timestamp (`time`) when the current set started. */
   currentSetStartTime: number;
+  /** The match time of the last rally (or let) in the current set, or its start time. */
+  lastRallyTime: number;
   /** Holds the data for the just-finished game, to show on the SetFinishModal. */
   setFinishData: GameSnapshot | null;
 
@@ -119,24 +380,55 @@ export interface MatchState {
   receiverOffsetB: number;
   /** Stores the winners ("A" or "B") of the last two points of a game. */
   lastTwoPointWinners: ("A" | "B")[];
+
+  // --- Side-Out Scoring State ---
+  /** The serving hand (first or second server) in side-out doubles. 'null' otherwise. */
+  serverHand: 1 | 2 | null;
+  /** The game target after the game was set (side-out only). 'null' plays to the normal target. */
+  setTo: number | null;
+  /** A pending setting decision. Rallies are ignored until it is made. */
+  settingOffer: SettingOffer | null;
 }
 
 /**
- * @summary Defines all possible actions that can be dispatched to the `matchReducer`.
- * @description This is a discriminated union type. Each action has a `type` property
- * and an optional `payload` containing the data needed for that action.
+ * @summary Defines all events that can be recorded in the match log.
+ * @description This is a discriminated union type. Each event has a `type` property
+ * and an optional `payload` containing the data needed for that event. Events are
+ * appended to the `MatchLog` and folded by the `matchReducer` to derive the `MatchState`.
  *
  * @property {"START_MATCH"} type - Resets the state and starts a new match with the given configuration.
- * @property {"INCREMENT"} type - Adds a point to a side and calculates the next server/receiver.
+ * With `resumeFrom`, the match starts at that score instead of 0-0: the games already played are added as
+ * `resumed` games and the server and receiver are placed in the courts the current score requires.
+ * Ignored if `resumeFrom` is not a match in progress under the rules.
+ * @property {"INCREMENT"} type - Adds a point to a side and calculates the next server/receiver. Ignored between games and once the match is finished.
+ * Under side-out scoring, `side` is the side that won the rally: a rally lost by the serving side passes the serve
+ * instead of scoring, and rallies are ignored while a setting offer is pending.
+ * @property {"LET"} type - Records a rally replayed as a let: no point is awarded and the server and receiver stay the same.
+ * Ignored between games and once the match is finished.
+ * @property {"ISSUE_CARD"} type - Issues a misconduct card to a player. A red card awards the rally to the
+ * opponent (as an 'INCREMENT'); a black card ends the match by disqualification. Ignored between games and once the match is finished.
+ * @property {"END_MATCH"} type - Ends the match early: `side` retires at the current score, gives a walkover
+ * (only before the first rally) or is disqualified. The opponent wins the match. Ignored once the match is finished.
+ * @property {"CORRECT_SERVICE"} type - Corrects a service court error mid-game: sets the server and receiver,
+ * places every player in the court required by the score, and rebuilds the serve rotation from there.
+ * Ignored between games and once the match is finished.
+ * @property {"EDIT_SCORE"} type - Sets the points and games by hand and recomputes the server, receiver, court
+ * positions and serve rotation for the new score. The state before the edit is kept in the point history.
+ * Ignored between games, once the match is finished, and if the new score would end the game or the match.
  * @property {"CONTINUE_NEXT_SET"} type - Resets scores and sets the server/receiver for the next game.
- * @property {"UNDO"} type - Reverts the match state to the previous `PointSnapshot`.
+ * Only applies while a finished game awaits confirmation (`setFinishData` is set) and the match is not over;
+ * ignored unless `nextServerName` is on the game winner's team and `nextReceiverName` on the loser's.
  * @property {"RESET_HISTORY"} type - Clears the `matchHistory` array.
  * @property {"SET_SET_FINISH_DATA"} type - Manually sets or clears the `setFinishData` object.
  * @property {"CLEAR_POINT_HISTORY"} type - Manually clears the `currentSetPointHistory`.
  * @property {"SET_NEXT_SERVER"} type - Manually sets the `setNextServer`.
  * @property {"SET_NEXT_RECEIVER"} type - Manually sets the `SetNextReceiver`.
+ * @property {"DISMISS_END_CHANGE"} type - Clears the "change ends" prompt.
+ * @property {"CHOOSE_SETTING"} type - Answers a side-out setting offer: sets the game to the offered target,
+ * or plays on to the normal target. Ignored if no offer is pending.
+ * @property {"END_INTERVAL"} type - Ends the running interval and logs it in the game record.
  */
-export type MatchAction =
+export type MatchEvent =
   | {
       type: "START_MATCH";
       payload: {
@@ -144,18 +436,39 @@ export type MatchAction =
         firstServe: "A" | "B";
         firstServerName: string;
         opponentReceiverName: string;
-        scoringSystemParam?: number;
+        rulesParam?: RuleSet;
         startTime: number;
+        resumeFrom?: ResumeScore;
       };
     }
   | {
       type: "INCREMENT";
       payload: {
         side: "A" | "B";
-        maxPoint: number;
         time: number;
       };
     }
+  | { type: "LET"; payload: { time: number } }
+  | {
+      type: "ISSUE_CARD";
+      payload: { player: string; color: CardColor; time: number };
+    }
+  | {
+      type: "END_MATCH";
+      payload: {
+        outcome: Exclude<MatchOutcome, "COMPLETED">;
+        side: "A" | "B";
+        time: number;
+      };
+    }
+  | {
+      type: "CORRECT_SERVICE";
+      payload: { serverName: string; receiverName: string; time: number };
+    }
+  | {
+      type: "EDIT_SCORE";
+      payload: EditedScore;
+    }
   | {
       type: "CONTINUE_NEXT_SET";
       payload: {
@@ -164,9 +477,71 @@ export type MatchAction =
         nextReceiverName: string;
       };
     }
-  | { type: "UNDO" }
   | { type: "RESET_HISTORY" }
   | { type: "SET_SET_FINISH_DATA"; payload: GameSnapshot | null }
   | { type: "CLEAR_POINT_HISTORY" }
   | { type: "SET_NEXT_SERVER"; payload: string }
-  | { type: "SET_NEXT_RECEIVER"; payload: string };
+  | { type: "SET_NEXT_RECEIVER"; payload: string }
+  | { type: "DISMISS_END_CHANGE" }
+  | { type: "CHOOSE_SETTING"; payload: { setGame: boolean } }
+  | { type: "END_INTERVAL"; payload: { time: number } };
+
+/**
+ * @summary The append-only event log of a match: the single source of truth.
+ * @description The `MatchState` is never stored; it is derived by replaying
+ * `events` from the start (see `replayMatch`). Undo moves the events of the
+ * last rally (or card) onto `redoStack`, and redo moves them back.
+ */
+export interface MatchLog {
+  /** Every event recorded since the match started, oldest first. */
+  events: MatchEvent[];
+  /** The event groups removed by "Undo", most recent last. Cleared by any new undo step. */
+  redoStack: MatchEvent[][];
+}
+
+/**
+ * @summary Defines all possible actions that can be dispatched to the `matchLogReducer`.
+ *
+ * @property {"RECORD"} type - Appends an event to the log. A 'START_MATCH' event starts a new log.
+ * @property {"UNDO"} type - Removes the last rally, let, card, service correction or early end
+ * (and every event recorded after it) from the log.
+ * At the start of a new game this reopens the previous game at the state before its winning rally.
+ * @property {"REDO"} type - Re-appends the events removed by the most recent "Undo".
+ */
+export type MatchLogAction =
+  | { type: "RECORD"; payload: MatchEvent }
+  | { type: "UNDO" }
+  | { type: "REDO" };
+
+/**
+ * @summary A past match kept in the match archive.
+ * @description Holds everything the `MatchHistoryModal` views need, so an
+ * archived match can be browsed just like the live one. It is stored when the
+ * match finishes, or when it is abandoned (a new match is started, the
+ * history is reset or a saved match is discarded) after its first rally.
+ */
+export type ArchivedMatch = {
+  /** A unique identifier, the same for every save of one match. */
+  id: string;
+  /** When the match was archived (milliseconds since the epoch). */
+  archivedAt: number;
+  /** False if the match was abandoned before one side won. */
+  finished: boolean;
+  /** The player rosters. */
+  players: Players;
+  /** The scoring format. */
+  rules: RuleSet;
+  /** Every game played, including the one in progress when it was abandoned. */
+  matchHistory: GameSnapshot[];
+  /** The games won by each side. */
+  setsA: number;
+  setsB: number;
+  /** The side that won the match, if finished. */
+  matchWinner: "A" | "B" | null;
+  /** How the match was decided, if finished. */
+  outcome: MatchOutcome | null;
+  /** Every misconduct card issued. */
+  cards: CardRecord[];
+  /** Every service court error corrected. */
+  serviceCorrections: ServiceCorrection[];
+};
@@ -0,0 +1,159 @@
+import { Players } from "../types/match";
+
+/**
+ * @summary The court positions of a doubles side: who stands in each service court.
+ */
+export type SideCourts = {
+  /** The player in the right service court (served from on an even score). */
+  right: string;
+  /** The player in the left service court (served from on an odd score). */
+  left: string;
+};
+
+/**
+ * @summary A service court, from the players' own view facing the net.
+ */
+export type ServiceCourt = keyof SideCourts;
+
+/**
+ * @summary The court positions of all four players in a doubles game.
+ * @description This is the model behind the stored rosters: Team A is stored
+ * as [Left, Right] and Team B as [Right, Left], so `toCourts` and
+ * `toPlayers` convert between the two without losing anything.
+ */
+export type CourtPositions = {
+  A: SideCourts;
+  B: SideCourts;
+};
+
+/**
+ * @summary The service court a side serves from (and receives in) at a given score.
+ * @description BWF Law 11: right on an even score (including 0), left on an odd one.
+ * @param {number} servingScore - The serving side's score.
+ * @returns {ServiceCourt} "right" or "left".
+ */
+export const getServiceCourt = (servingScore: number): ServiceCourt =>
+  servingScore % 2 === 0 ? "right" : "left";
+
+/**
+ * @summary Reads the court positions from the stored rosters.
+ * @param {Players} players - The rosters, Team A as [Left, Right] and Team B as [Right, Left].
+ * @returns {CourtPositions} The court of every player.
+ */
+export const toCourts = (players: Players): CourtPositions => ({
+  A: { left: players.teamA[0], right: players.teamA[1] ?? players.teamA[0] },
+  B: { right: players.teamB[0], left: players.teamB[1] ?? players.teamB[0] },
+});
+
+/**
+ * @summary Writes the court positions back as rosters.
+ * @param {CourtPositions} courts - The court of every player.
+ * @returns {Players} Team A as [Left, Right] and Team B as [Right, Left].
+ */
+export const toPlayers = (courts: CourtPositions): Players => ({
+  teamA: [courts.A.left, courts.A.right],
+  teamB: [courts.B.right, courts.B.left],
+});
+
+/**
+ * @typedef {object} ServiceLayout
+ * @description The serving side, server and receiver a layout is built around.
+ */
+interface ServiceLayout {
+  /** The side about to serve. */
+  servingSide: "A" | "B";
+  /** The player about to serve. */
+  serverName: string;
+  /** The player about to receive (on the other side). */
+  receiverName: string;
+  /** The serving side's score. */
+  servingScore: number;
+}
+
+/**
+ * @summary
+ * Places all four players for a given server and receiver.
+ *
+ * @description
+ * Used at the start of a game (0-0 or the handicap score) and whenever the
+ * recorded positions cannot be trusted (a service court correction, a score
+ * edit, a resumed match). Nothing is assumed about where anyone stood: the
+ * server stands in the service court the serving side's score requires, the
+ * receiver diagonally opposite (the court of the same name), and both
+ * partners take the remaining courts.
+ *
+ * @param {Players} players - The rosters (any order).
+ * @param {ServiceLayout} layout - The serving side, server, receiver and score.
+ * @returns {CourtPositions} The court of every player.
+ */
+export function placeForService(
+  players: Players,
+  { servingSide, serverName, receiverName, servingScore }: ServiceLayout
+): CourtPositions {
+  const servingTeam = servingSide === "A" ? players.teamA : players.teamB;
+  const receivingTeam = servingSide === "A" ? players.teamB : players.teamA;
+  const court = getServiceCourt(servingScore);
+
+  const place = (team: string[], name: string): SideCourts => {
+    const partner = team.find((p) => p !== name) ?? name;
+    return court === "right"
+      ? { right: name, left: partner }
+      : { right: partner, left: name };
+  };
+
+  const serving = place(servingTeam, serverName);
+  const receiving = place(receivingTeam, receiverName);
+
+  return servingSide === "A"
+    ? { A: serving, B: receiving }
+    : { A: receiving, B: serving };
+}
+
+/**
+ * @summary
+ * Applies the result of a rally to the court positions.
+ *
+ * @description
+ * BWF Law 11: only the serving side's won rallies move anyone. The server and
+ * partner then change service courts and the same server serves again, from
+ * the other court. When the receiving side wins, nobody moves; that side
+ * serves next from the court its new score requires.
+ *
+ * @param {CourtPositions} courts - The positions before the rally.
+ * @param {"A" | "B"} servingSide - The side that served the rally.
+ * @param {"A" | "B"} rallyWinner - The side that won the rally.
+ * @returns {CourtPositions} The positions for the next rally.
+ */
+export function applyRally(
+  courts: CourtPositions,
+  servingSide: "A" | "B",
+  rallyWinner: "A" | "B"
+): CourtPositions {
+  if (rallyWinner !== servingSide) return courts;
+
+  const { right, left } = courts[servingSide];
+  return { ...courts, [servingSide]: { right: left, left: right } };
+}
+
+/**
+ * @summary Finds the server and receiver the court positions give for the next rally.
+ * @description The server is the serving side's player in the court its
+ * score requires; the receiver stands diagonally opposite.
+ * @param {CourtPositions} courts - The current positions.
+ * @param {"A" | "B"} servingSide - The side about to serve.
+ * @param {number} servingScore - The serving side's score.
+ * @returns {{ server: string; receiver: string }} The server and receiver.
+ */
+export function getServerAndReceiver(
+  courts: CourtPositions,
+  servingSide: "A" | "B",
+  servingScore: number
+): { server: string; receiver: string } {
+  const court = getServiceCourt(servingScore);
+  const receivingSide = servingSide === "A" ? "B" : "A";
+
+  return {
+    server: courts[servingSide][court],
+    receiver: courts[receivingSide][court],
+  };
+}
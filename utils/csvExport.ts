@@ -0,0 +1,219 @@
+import { RuleSet } from "@/types/match";
+import {
+  calculateGameStats,
+  calculateMatchStats,
+  GameStats,
+} from "./statsUtils";
+
+/**
+ * Represents a snapshot of the match state at a single point in time.
+ * NOTE: This type must be kept in sync with the 'PointSnapshot' type in types/match.ts.
+ */
+type PointSnapshot = {
+  pointsA: number;
+  pointsB: number;
+  serverSide: "A" | "B" | null;
+  currentServer: string | null;
+  currentReceiver: string | null;
+  serveIndex: number;
+  lets: number;
+  scoreEdits: number;
+  servesLost?: number;
+  time?: number;
+};
+
+/**
+ * Represents a completed or in-progress game (set).
+ * NOTE: This type must be kept in sync with the 'GameSnapshot' type in types/match.ts.
+ */
+type GameSnapshot = {
+  gameNumber: number;
+  pointsA: number;
+  pointsB: number;
+  winnerSide: "A" | "B" | null;
+  duration: number;
+  pointHistory: PointSnapshot[];
+  incomplete: boolean;
+  resumed: boolean;
+};
+
+/**
+ * Formats seconds as HH:MM:SS, which spreadsheets read as a duration.
+ * @internal
+ */
+const formatTime = (seconds: number) => {
+  const hrs = String(Math.floor(seconds / 3600)).padStart(2, "0");
+  const mins = String(Math.floor((seconds % 3600) / 60)).padStart(2, "0");
+  const secs = String(seconds % 60).padStart(2, "0");
+  return `${hrs}:${mins}:${secs}`;
+};
+
+/**
+ * Quotes a field if it holds a comma, a quote or a line break (RFC 4180).
+ * @internal
+ */
+const escapeField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Joins rows into CSV text. The byte order mark lets spreadsheet apps read
+ * accented player names as UTF-8.
+ * @internal
+ */
+const toCsv = (rows: (string | number)[][]) =>
+  "\uFEFF" + rows.map((row) => row.map(escapeField).join(",")).join("\r\n");
+
+/**
+ * @summary
+ * Builds a CSV with one row per rally, for analysis in a spreadsheet.
+ *
+ * @description
+ * The rallies are read from each game's `pointHistory`: every entry after the
+ * first is the state after one rally, and the entry before it holds who
+ * served and received it. A let is a rally with no winner; a manual score
+ * edit is not a rally and is left out. A game entered by hand when resuming a
+ * match has no point history, so it has no rows. Under side-out scoring a
+ * rally the serving side lost is won by the receiving side with no change of
+ * score (games recorded before these rallies were kept only hold the scoring
+ * rallies and lets).
+ *
+ * Columns: game, rally, score after the rally (one column per side), rally
+ * winner, server, receiver, serving side and the match time of the rally
+ * (empty for matches recorded before rally times were kept).
+ *
+ * @param {GameSnapshot[]} matchHistory - Every game of the match.
+ * @param {{ teamA: string[]; teamB: string[] }} players - The player rosters, for the team names.
+ * @returns {string} The CSV text.
+ */
+export function createRallyCsv(
+  matchHistory: GameSnapshot[],
+  players: { teamA: string[]; teamB: string[] }
+): string {
+  const teamName = (side: "A" | "B" | null) =>
+    side === null
+      ? ""
+      : (side === "A" ? players.teamA : players.teamB).join(" & ");
+
+  const rows: (string | number)[][] = [
+    [
+      "Game",
+      "Rally",
+      `Score ${teamName("A")}`,
+      `Score ${teamName("B")}`,
+      "Rally Winner",
+      "Server",
+      "Receiver",
+      "Serving Side",
+      "Elapsed Time",
+    ],
+  ];
+
+  matchHistory.forEach((game) => {
+    let rally = 0;
+    for (let i = 1; i < game.pointHistory.length; i++) {
+      const before = game.pointHistory[i - 1];
+      const after = game.pointHistory[i];
+      if (after.scoreEdits > before.scoreEdits) continue;
+
+      rally++;
+      const winner =
+        after.pointsA > before.pointsA
+          ? teamName("A")
+          : after.pointsB > before.pointsB
+            ? teamName("B")
+            : (after.servesLost ?? 0) > (before.servesLost ?? 0)
+              ? teamName(before.serverSide === "A" ? "B" : "A")
+              : "Let";
+
+      rows.push([
+        game.gameNumber,
+        rally,
+        after.pointsA,
+        after.pointsB,
+        winner,
+        before.currentServer ?? "",
+        before.currentReceiver ?? "",
+        teamName(before.serverSide),
+        after.time === undefined ? "" : formatTime(after.time),
+      ]);
+    }
+  });
+
+  return toCsv(rows);
+}
+
+/**
+ * @summary
+ * Builds a CSV with the totals of each game and of the whole match.
+ *
+ * @description
+ * One row per game from `calculateGameStats`, then a "Match" row from
+ * `calculateMatchStats`, with the same columns as the match history views.
+ * The "Match" row's score columns hold the games won.
+ *
+ * @param {GameSnapshot[]} matchHistory - Every game of the match.
+ * @param {{ teamA: string[]; teamB: string[] }} players - The player rosters, for the team names.
+ * @param {RuleSet} rules - The rule set in play, for the game point totals.
+ * @returns {string} The CSV text.
+ */
+export function createTotalsCsv(
+  matchHistory: GameSnapshot[],
+  players: { teamA: string[]; teamB: string[] },
+  rules: RuleSet
+): string {
+  const teamAName = players.teamA.join(" & ");
+  const teamBName = players.teamB.join(" & ");
+
+  const statColumns = (stats: GameStats) => [
+    stats.totalPointsWonA,
+    stats.totalPointsWonB,
+    stats.totalPointsPlayed,
+    stats.lets,
+    stats.mostConsecutivePointsA,
+    stats.mostConsecutivePointsB,
+    stats.gamePointsA,
+    stats.gamePointsB,
+  ];
+
+  const rows: (string | number)[][] = [
+    [
+      "Game",
+      `Score ${teamAName}`,
+      `Score ${teamBName}`,
+      "Winner",
+      "Duration",
+      `Points Won ${teamAName}`,
+      `Points Won ${teamBName}`,
+      "Points Played",
+      "Lets",
+      `Most Consecutive Points ${teamAName}`,
+      `Most Consecutive Points ${teamBName}`,
+      `Game Points ${teamAName}`,
+      `Game Points ${teamBName}`,
+    ],
+    ...matchHistory.map((game) => [
+      game.gameNumber,
+      game.pointsA,
+      game.pointsB,
+      game.winnerSide === "A"
+        ? teamAName
+        : game.winnerSide === "B"
+          ? teamBName
+          : "",
+      formatTime(game.duration),
+      ...statColumns(calculateGameStats(game, rules)),
+    ]),
+    [
+      "Match",
+      matchHistory.filter((game) => game.winnerSide === "A").length,
+      matchHistory.filter((game) => game.winnerSide === "B").length,
+      "",
+      formatTime(matchHistory.reduce((acc, game) => acc + game.duration, 0)),
+      ...statColumns(calculateMatchStats(matchHistory, rules)),
+    ],
+  ];
+
+  return toCsv(rows);
+}
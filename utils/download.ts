@@ -0,0 +1,18 @@
+/**
+ * @summary Saves text as a file through the browser's download.
+ * @param {string} fileName - The suggested file name (e.g., "match.json").
+ * @param {string} contents - The file contents.
+ * @param {string} mimeType - The file type (e.g., "application/json").
+ */
+export function downloadFile(
+  fileName: string,
+  contents: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,17 @@
+/**
+ * @summary
+ * Gets the number of games a side must win to take the match.
+ *
+ * @description
+ * A "best of N" match is decided as soon as one side has won a majority
+ * of the N games:
+ * - Best of 1: the single game decides the match.
+ * - Best of 3: the first side to win 2 games wins the match.
+ * - Best of 5: the first side to win 3 games wins the match.
+ *
+ * @param {number} bestOf - The match length in games (e.g., 1, 3, or 5).
+ * @returns {number} The number of games required to win the match.
+ */
+export const getGamesToWin = (bestOf: number) => {
+  return Math.floor(bestOf / 2) + 1;
+};
@@ -0,0 +1,42 @@
+import { IntervalKind, IntervalRecord } from "../types/match";
+
+/** The length of the interval when the leading side reaches the mid-game point (BWF: 60s). */
+export const MID_GAME_INTERVAL_SECONDS = 60;
+
+/** The length of the interval between games (BWF: 120s). */
+export const BETWEEN_GAMES_INTERVAL_SECONDS = 120;
+
+/** The umpire calls "20 seconds" when this much time is left in an interval. */
+export const INTERVAL_WARNING_SECONDS = 20;
+
+/**
+ * @summary Creates a new, running interval log entry.
+ *
+ * @param {IntervalKind} kind - Whether this is the mid-game or between-games interval.
+ * @param {number} time - The match time (seconds) when the interval starts.
+ * @returns {IntervalRecord} The interval record, with `endTime` still `null`.
+ */
+export const startInterval = (
+  kind: IntervalKind,
+  time: number
+): IntervalRecord => ({
+  kind,
+  startTime: time,
+  duration:
+    kind === "MID_GAME"
+      ? MID_GAME_INTERVAL_SECONDS
+      : BETWEEN_GAMES_INTERVAL_SECONDS,
+  endTime: null,
+});
+
+/**
+ * @summary Gets the seconds left in a running interval.
+ *
+ * @param {IntervalRecord} interval - The running interval.
+ * @param {number} time - The current match time in seconds.
+ * @returns {number} The remaining seconds, never below 0.
+ */
+export const getIntervalRemaining = (
+  interval: IntervalRecord,
+  time: number
+): number => Math.max(0, interval.duration - (time - interval.startTime));
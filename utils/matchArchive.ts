@@ -0,0 +1,219 @@
+import { ArchivedMatch, MatchState, TeamFormat } from "@/types/match";
+import { getGameHistory } from "@/engine";
+import { getTeamFormat } from "@/utils/teamFormat";
+
+/** The IndexedDB database and object store the archive lives in. */
+const ARCHIVE_DB_NAME = "badmintonscore";
+const ARCHIVE_DB_VERSION = 1;
+const ARCHIVE_STORE = "matches";
+
+/**
+ * @summary Filters for browsing the archive. Empty fields match everything.
+ */
+export type ArchiveFilters = {
+  /** Part of a player name, in any case. */
+  player: string;
+  /** The first day to include, as "YYYY-MM-DD". */
+  from: string;
+  /** The last day to include, as "YYYY-MM-DD". */
+  to: string;
+  /** Singles, doubles or triples, or "ALL". */
+  teamFormat: TeamFormat | "ALL";
+  /** The rule set preset id (e.g., "bwf-21"), or "ALL". */
+  rulesId: string;
+};
+
+/** Filters that match every archived match. */
+export const EMPTY_ARCHIVE_FILTERS: ArchiveFilters = {
+  player: "",
+  from: "",
+  to: "",
+  teamFormat: "ALL",
+  rulesId: "ALL",
+};
+
+/**
+ * @summary Creates an identifier for a new match.
+ * @returns {string} An identifier unique to this device.
+ */
+export const createMatchId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * @summary
+ * Builds the archive entry of a match from its state.
+ *
+ * @description
+ * A finished match is stored as it is. An abandoned match also keeps the game
+ * in progress, marked as unfinished, so no rally is lost.
+ *
+ * @param {string} id - The match identifier.
+ * @param {MatchState} state - The match state to archive.
+ * @param {number} time - The current match time, for the game in progress.
+ * @returns {ArchivedMatch} The archive entry.
+ */
+export function createArchivedMatch(
+  id: string,
+  state: MatchState,
+  time: number
+): ArchivedMatch {
+  const finished = state.status === "MATCH_FINISHED";
+  const matchHistory = finished
+    ? state.matchHistory
+    : getGameHistory(state, time).map((game) =>
+        game.winnerSide === null ? { ...game, incomplete: true } : game
+      );
+
+  return {
+    id,
+    archivedAt: Date.now(),
+    finished,
+    players: state.players,
+    rules: state.rules,
+    matchHistory,
+    setsA: state.setsA,
+    setsB: state.setsB,
+    matchWinner: state.matchWinner,
+    outcome: state.outcome,
+    cards: state.cards,
+    serviceCorrections: state.serviceCorrections,
+  };
+}
+
+/**
+ * @summary Opens the archive database, creating the store on first use.
+ * @returns {Promise<IDBDatabase>} The open database.
+ * @internal
+ */
+function openArchive(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(ARCHIVE_DB_NAME, ARCHIVE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ARCHIVE_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * @summary Runs one transaction on the archive store.
+ * @param {IDBTransactionMode} mode - "readonly" or "readwrite".
+ * @param {(store: IDBObjectStore) => IDBRequest<T> | void} run - The work to do in the transaction.
+ * @returns {Promise<T | undefined>} The result of the request `run` returns, once the transaction completes.
+ * @internal
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openArchive();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(ARCHIVE_STORE, mode);
+      const request = run(transaction.objectStore(ARCHIVE_STORE));
+      transaction.oncomplete = () => resolve(request?.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * @summary Saves a match to the archive, replacing any earlier save of it.
+ * @param {ArchivedMatch} match - The archive entry.
+ */
+export const archiveMatch = (match: ArchivedMatch): Promise<void> =>
+  archiveMatches([match]);
+
+/**
+ * @summary Saves several matches in one transaction (e.g., from an imported file).
+ * @param {ArchivedMatch[]} matches - The archive entries.
+ */
+export async function archiveMatches(matches: ArchivedMatch[]): Promise<void> {
+  await withStore("readwrite", (store) => {
+    matches.forEach((match) => store.put(match));
+  });
+}
+
+/**
+ * @summary Loads every archived match.
+ * @returns {Promise<ArchivedMatch[]>} The matches, most recent first.
+ */
+export async function listArchivedMatches(): Promise<ArchivedMatch[]> {
+  const matches = await withStore<ArchivedMatch[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return (matches ?? []).sort((a, b) => b.archivedAt - a.archivedAt);
+}
+
+/**
+ * @summary Loads one archived match.
+ * @param {string} id - The match identifier.
+ * @returns {Promise<ArchivedMatch | null>} The match, or null if it is not in the archive.
+ */
+export async function getArchivedMatch(
+  id: string
+): Promise<ArchivedMatch | null> {
+  const match = await withStore<ArchivedMatch>("readonly", (store) =>
+    store.get(id)
+  );
+  return match ?? null;
+}
+
+/**
+ * @summary Deletes matches from the archive.
+ * @param {string[]} ids - The identifiers of the matches to delete.
+ */
+export async function deleteArchivedMatches(ids: string[]): Promise<void> {
+  await withStore("readwrite", (store) => {
+    ids.forEach((id) => store.delete(id));
+  });
+}
+
+/**
+ * @summary Formats a date as "YYYY-MM-DD" in local time, as date inputs do.
+ * @param {number} timestamp - Milliseconds since the epoch.
+ * @returns {string} The local date.
+ */
+export const toDateInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * @summary Keeps the archived matches that pass every filter.
+ * @param {ArchivedMatch[]} matches - The archived matches.
+ * @param {ArchiveFilters} filters - The filters to apply.
+ * @returns {ArchivedMatch[]} The matching entries, in the same order.
+ */
+export function filterArchivedMatches(
+  matches: ArchivedMatch[],
+  filters: ArchiveFilters
+): ArchivedMatch[] {
+  const player = filters.player.trim().toLowerCase();
+
+  return matches.filter((match) => {
+    const names = [...match.players.teamA, ...match.players.teamB];
+    if (player && !names.some((n) => n.toLowerCase().includes(player))) {
+      return false;
+    }
+
+    // "YYYY-MM-DD" strings compare in date order
+    const day = toDateInputValue(match.archivedAt);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+
+    if (
+      filters.teamFormat !== "ALL" &&
+      getTeamFormat(match.players) !== filters.teamFormat
+    ) {
+      return false;
+    }
+    return filters.rulesId === "ALL" || match.rules.id === filters.rulesId;
+  });
+}
@@ -0,0 +1,334 @@
+import {
+  ArchivedMatch,
+  CardRecord,
+  GameSnapshot,
+  Handicap,
+  IntervalRecord,
+  Players,
+  PointSnapshot,
+  RuleSet,
+  ServiceCorrection,
+} from "@/types/match";
+
+/*
+ * The match file format, used to move matches between devices and keep backups.
+ *
+ * A file is a JSON object:
+ *   {
+ *     "format": "badmintonscore.matches",
+ *     "version": 1,
+ *     "exportedAt": "2026-10-18T09:30:00.000Z",
+ *     "matches": [ArchivedMatch, ...]
+ *   }
+ *
+ * Each match is an `ArchivedMatch`: the players, rules and result, and every
+ * game as a `GameSnapshot` with its `PointSnapshot` history, exactly as the
+ * `MatchState` holds them. Matches are written unchanged, so a file exported
+ * and imported again yields the same matches.
+ *
+ * When the format changes, `MATCH_FILE_VERSION` goes up by one and a
+ * migration from the previous version is added to `MIGRATIONS`; files of any
+ * older version are then upgraded step by step before they are validated.
+ */
+
+/** The `format` field every match file carries. */
+export const MATCH_FILE_FORMAT = "badmintonscore.matches";
+
+/** The version of the match file format written by this app. */
+export const MATCH_FILE_VERSION = 1;
+
+/**
+ * @summary The contents of a match file.
+ */
+export type MatchFile = {
+  format: typeof MATCH_FILE_FORMAT;
+  version: typeof MATCH_FILE_VERSION;
+  /** When the file was exported (ISO 8601). */
+  exportedAt: string;
+  /** The exported matches. */
+  matches: ArchivedMatch[];
+};
+
+/**
+ * @summary The result of reading a match file.
+ */
+export type MatchFileResult =
+  | { ok: true; matches: ArchivedMatch[] }
+  | { ok: false; errors: string[] };
+
+/**
+ * Upgrades a file from the version it is keyed by to the next one. Version 1
+ * is the first format, so there is nothing to upgrade yet.
+ */
+const MIGRATIONS: Record<
+  number,
+  (file: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+/** At most this many validation errors are listed, so the message stays readable. */
+const MAX_ERRORS = 10;
+
+/**
+ * @summary Builds a match file.
+ * @param {ArchivedMatch[]} matches - The matches to export.
+ * @returns {string} The file contents (indented JSON).
+ */
+export function createMatchFile(matches: ArchivedMatch[]): string {
+  const file: MatchFile = {
+    format: MATCH_FILE_FORMAT,
+    version: MATCH_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    matches,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// --- Validation ---
+
+/** Checks one value and reports what is wrong with it, by path. */
+type Check = (value: unknown, path: string, fail: Fail) => void;
+type Fail = (path: string, problem: string) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const count: Check = (value, path, fail) => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    fail(path, "should be a whole number of 0 or more");
+  }
+};
+
+const seconds: Check = (value, path, fail) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    fail(path, "should be a number of seconds of 0 or more");
+  }
+};
+
+const timestamp: Check = (value, path, fail) => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    fail(path, "should be a date (milliseconds since 1970)");
+  }
+};
+
+const text: Check = (value, path, fail) => {
+  if (typeof value !== "string") fail(path, "should be text");
+};
+
+const flag: Check = (value, path, fail) => {
+  if (typeof value !== "boolean") fail(path, "should be true or false");
+};
+
+const oneOf =
+  (...options: (string | number)[]): Check =>
+  (value, path, fail) => {
+    if (!options.includes(value as string | number)) {
+      fail(path, `should be one of ${options.join(", ")}`);
+    }
+  };
+
+const side = oneOf("A", "B");
+
+const nullable =
+  (check: Check): Check =>
+  (value, path, fail) => {
+    if (value !== null) check(value, path, fail);
+  };
+
+const optional =
+  (check: Check): Check =>
+  (value, path, fail) => {
+    if (value !== undefined) check(value, path, fail);
+  };
+
+const listOf =
+  (check: Check): Check =>
+  (value, path, fail) => {
+    if (!Array.isArray(value)) return fail(path, "should be a list");
+    value.forEach((item, idx) => check(item, `${path}[${idx}]`, fail));
+  };
+
+/** Checks an object field by field; every field of `T` needs a check. */
+const shape =
+  <T>(fields: { [K in keyof T]-?: Check }): Check =>
+  (value, path, fail) => {
+    if (!isObject(value)) return fail(path, "should be an object");
+    for (const [key, check] of Object.entries(fields) as [string, Check][]) {
+      check(value[key], path ? `${path}.${key}` : key, fail);
+    }
+  };
+
+const players: Check = (value, path, fail) => {
+  shape<Players>({ teamA: listOf(text), teamB: listOf(text) })(
+    value,
+    path,
+    fail
+  );
+  if (!isObject(value)) return;
+  const { teamA, teamB } = value as Partial<Players>;
+  if (!Array.isArray(teamA) || !Array.isArray(teamB)) return;
+  const size = teamA.length;
+  if (size === 0 || size > 3 || size !== teamB.length) {
+    fail(path, "should have 1 to 3 players on each side, the same on both");
+  }
+};
+
+const pointSnapshot = shape<PointSnapshot>({
+  pointsA: count,
+  setsA: count,
+  pointsB: count,
+  setsB: count,
+  serverSide: nullable(side),
+  currentServer: nullable(text),
+  currentReceiver: nullable(text),
+  nextServer: nullable(text),
+  serveIndex: count,
+  serveOrder: listOf(text),
+  leftSide: side,
+  lets: count,
+  scoreEdits: count,
+  servesLost: optional(count),
+  setTo: optional(nullable(count)),
+  time: optional(seconds),
+  players,
+});
+
+const intervalRecord = shape<IntervalRecord>({
+  kind: oneOf("MID_GAME", "BETWEEN_GAMES"),
+  startTime: seconds,
+  duration: seconds,
+  endTime: nullable(seconds),
+});
+
+const gameSnapshot = shape<GameSnapshot>({
+  gameNumber: count,
+  pointsA: count,
+  pointsB: count,
+  winnerSide: nullable(side),
+  startTime: seconds,
+  duration: seconds,
+  pointHistory: listOf(pointSnapshot),
+  intervals: listOf(intervalRecord),
+  incomplete: flag,
+  resumed: flag,
+});
+
+const ruleSet = shape<RuleSet>({
+  id: text,
+  name: text,
+  target: count,
+  winBy: count,
+  cap: nullable(count),
+  gamesPerMatch: oneOf(1, 3, 5),
+  intervals: flag,
+  handicap: optional(shape<Handicap>({ pointsA: count, pointsB: count })),
+  scoring: optional(oneOf("RALLY", "SIDE_OUT")),
+});
+
+const cardRecord = shape<CardRecord>({
+  color: oneOf("YELLOW", "RED", "BLACK"),
+  player: text,
+  side,
+  gameNumber: count,
+  pointsA: count,
+  pointsB: count,
+  time: seconds,
+});
+
+const serviceCorrection = shape<ServiceCorrection>({
+  gameNumber: count,
+  pointsA: count,
+  pointsB: count,
+  time: seconds,
+  previousServer: nullable(text),
+  previousReceiver: nullable(text),
+  server: text,
+  receiver: text,
+});
+
+const archivedMatch = shape<ArchivedMatch>({
+  id: text,
+  archivedAt: timestamp,
+  finished: flag,
+  players,
+  rules: ruleSet,
+  matchHistory: listOf(gameSnapshot),
+  setsA: count,
+  setsB: count,
+  matchWinner: nullable(side),
+  outcome: nullable(
+    oneOf("COMPLETED", "RETIRED", "WALKOVER", "DISQUALIFIED")
+  ),
+  cards: listOf(cardRecord),
+  serviceCorrections: listOf(serviceCorrection),
+});
+
+// --- Reading ---
+
+/**
+ * @summary
+ * Reads a match file, upgrading older versions and validating every field.
+ *
+ * @description
+ * Nothing in the file is trusted: a file that is not JSON, is not a match
+ * file, was written by a newer version of the app or has any field of the
+ * wrong type or range is rejected with readable errors (e.g.,
+ * "matches[0].matchHistory[1].pointsA should be a whole number of 0 or
+ * more"), so bad data never reaches the views. Valid matches are returned
+ * unchanged.
+ *
+ * @param {string} contents - The file contents.
+ * @returns {MatchFileResult} The matches, or the reasons the file was rejected.
+ */
+export function readMatchFile(contents: string): MatchFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch {
+    return { ok: false, errors: ["The file is not valid JSON."] };
+  }
+
+  if (!isObject(data) || data.format !== MATCH_FILE_FORMAT) {
+    return { ok: false, errors: ["The file is not a match file."] };
+  }
+  const version = data.version;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return { ok: false, errors: ["The file has no valid format version."] };
+  }
+  if ((version as number) > MATCH_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `The file uses format version ${version}, made by a newer version of the app (this one reads up to ${MATCH_FILE_VERSION}).`,
+      ],
+    };
+  }
+
+  // Upgrade older files one version at a time
+  let file = data;
+  for (let v = version as number; v < MATCH_FILE_VERSION; v++) {
+    file = MIGRATIONS[v](file);
+  }
+
+  const errors: string[] = [];
+  const fail: Fail = (path, problem) => errors.push(`${path} ${problem}.`);
+  listOf(archivedMatch)(file.matches, "matches", fail);
+
+  if (errors.length === 0) {
+    const ids = (file.matches as ArchivedMatch[]).map((m) => m.id);
+    if (new Set(ids).size !== ids.length) {
+      fail("matches", "should not hold the same match twice");
+    }
+  }
+
+  if (errors.length > 0) {
+    const more = errors.length - MAX_ERRORS;
+    return {
+      ok: false,
+      errors: [
+        ...errors.slice(0, MAX_ERRORS),
+        ...(more > 0 ? [`...and ${more} more.`] : []),
+      ],
+    };
+  }
+  return { ok: true, matches: file.matches as ArchivedMatch[] };
+}
@@ -0,0 +1,32 @@
+import { MatchOutcome } from "@/types/match";
+
+/**
+ * @summary
+ * Describes how a finished match was decided, for the summary and history views.
+ *
+ * @description
+ * A match that was played out needs no explanation, so `COMPLETED` (and an
+ * unfinished match) yield `null`. Otherwise the losing side is named:
+ * - Retired: "Team B retired"
+ * - Walkover: "Walkover: Team B did not play"
+ * - Disqualified: "Team B disqualified"
+ *
+ * @param {MatchOutcome | null} outcome - How the match was decided.
+ * @param {string} loserName - The display name of the losing side.
+ * @returns {string | null} The description, or `null` for a completed match.
+ */
+export const describeOutcome = (
+  outcome: MatchOutcome | null,
+  loserName: string
+): string | null => {
+  switch (outcome) {
+    case "RETIRED":
+      return `${loserName} retired`;
+    case "WALKOVER":
+      return `Walkover: ${loserName} did not play`;
+    case "DISQUALIFIED":
+      return `${loserName} disqualified`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,108 @@
+import { ArchivedMatch, MatchLog } from "@/types/match";
+import { getMatchState, isMatchStarted } from "@/engine";
+import { createArchivedMatch } from "@/utils/matchArchive";
+
+/** The local storage key the live match is saved under. */
+export const LIVE_MATCH_STORAGE_KEY = "badmintonscore.liveMatch";
+
+/**
+ * The version of the saved format. A save with any other version is ignored,
+ * as its events may no longer replay to the same state.
+ */
+const SAVED_MATCH_VERSION = 1;
+
+/**
+ * @summary Everything needed to restore a match after a reload.
+ * @description The match state itself is not stored: it is derived again by
+ * replaying the log, exactly as it was before the reload.
+ */
+export type SavedMatch = {
+  /** The version of the saved format. */
+  version: typeof SAVED_MATCH_VERSION;
+  /** The match event log, including the redo stack. */
+  log: MatchLog;
+  /** The elapsed match time in seconds. */
+  time: number;
+  /** Whether the match timer was running (it stops once the match is over). */
+  isRunning: boolean;
+  /** Whether the match timer was paused. */
+  isPaused: boolean;
+  /** When the match was saved (milliseconds since the epoch). */
+  savedAt: number;
+  /** The match identifier in the archive (absent in older saves). */
+  matchId?: string;
+};
+
+/**
+ * @summary Saves the live match to local storage.
+ * @description Failures (e.g., storage disabled or full) are ignored: the
+ * match goes on, it just cannot be resumed after a reload.
+ * @param {Omit<SavedMatch, "version" | "savedAt">} match - The log and timer to save.
+ */
+export function saveLiveMatch(
+  match: Omit<SavedMatch, "version" | "savedAt">
+): void {
+  const saved: SavedMatch = {
+    version: SAVED_MATCH_VERSION,
+    ...match,
+    savedAt: Date.now(),
+  };
+  try {
+    localStorage.setItem(LIVE_MATCH_STORAGE_KEY, JSON.stringify(saved));
+  } catch {
+    // Nothing to do; see above
+  }
+}
+
+/**
+ * @summary Loads the saved live match, if there is one that can be resumed.
+ * @description A save that cannot be read, has another version or whose log
+ * does not replay to a started, unfinished match is ignored.
+ * @returns {SavedMatch | null} The saved match, or `null`.
+ */
+export function loadLiveMatch(): SavedMatch | null {
+  try {
+    const raw = localStorage.getItem(LIVE_MATCH_STORAGE_KEY);
+    if (!raw) return null;
+
+    const saved = JSON.parse(raw) as SavedMatch;
+    if (
+      saved?.version !== SAVED_MATCH_VERSION ||
+      !Array.isArray(saved.log?.events) ||
+      !Array.isArray(saved.log?.redoStack) ||
+      typeof saved.time !== "number"
+    ) {
+      return null;
+    }
+
+    const state = getMatchState(saved.log);
+    if (!isMatchStarted(state) || state.status === "MATCH_FINISHED") {
+      return null;
+    }
+    return saved;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @summary Loads the saved live match as a match record, for the scoresheet.
+ * @description The record is built as for the archive, so the game in
+ * progress is included (marked as unfinished).
+ * @returns {ArchivedMatch | null} The match record, or `null` if no match is in progress.
+ */
+export function loadLiveMatchRecord(): ArchivedMatch | null {
+  const saved = loadLiveMatch();
+  if (!saved) return null;
+  const state = getMatchState(saved.log);
+  return createArchivedMatch(saved.matchId ?? "live", state, saved.time);
+}
+
+/** @summary Removes the saved live match from local storage. */
+export function clearLiveMatch(): void {
+  try {
+    localStorage.removeItem(LIVE_MATCH_STORAGE_KEY);
+  } catch {
+    // Nothing to do; storage is unavailable
+  }
+}
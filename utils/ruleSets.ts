@@ -0,0 +1,272 @@
+import { EditedScore, Handicap, ResumeScore, RuleSet } from "../types/match";
+import { getGamesToWin } from "./getGamesToWin";
+
+/**
+ * @summary The registry of named scoring formats.
+ * @description Every UI entry point (home page, navbar, new match modal) is
+ * driven from this list. The first entries are the standard BWF formats; the
+ * rest are club variations and the legacy side-out format.
+ */
+export const RULE_SET_PRESETS: RuleSet[] = [
+  {
+    id: "classic-15",
+    name: "15 Points",
+    target: 15,
+    winBy: 2,
+    cap: 21,
+    gamesPerMatch: 3,
+    intervals: true,
+  },
+  {
+    id: "bwf-21",
+    name: "21 Points",
+    target: 21,
+    winBy: 2,
+    cap: 30,
+    gamesPerMatch: 3,
+    intervals: true,
+  },
+  {
+    id: "long-30",
+    name: "30 Points",
+    target: 30,
+    winBy: 2,
+    cap: 30,
+    gamesPerMatch: 3,
+    intervals: true,
+  },
+  {
+    id: "bwf-11x5",
+    name: "11 × 5",
+    target: 11,
+    winBy: 2,
+    cap: 15,
+    gamesPerMatch: 5,
+    intervals: true,
+  },
+  {
+    id: "15-no-cap",
+    name: "15 Points, No Cap",
+    target: 15,
+    winBy: 2,
+    cap: null,
+    gamesPerMatch: 3,
+    intervals: true,
+  },
+  {
+    id: "21-no-deuce",
+    name: "First to 21",
+    target: 21,
+    winBy: 1,
+    cap: null,
+    gamesPerMatch: 3,
+    intervals: true,
+  },
+  {
+    // Pre-2006 laws: only the server scores, setting at 13-all and 14-all
+    id: "sideout-15",
+    name: "15 Points, Side-out",
+    target: 15,
+    winBy: 1,
+    cap: null,
+    gamesPerMatch: 3,
+    intervals: false,
+    scoring: "SIDE_OUT",
+  },
+];
+
+/**
+ * @summary The ids of the presets offered as one-tap shortcuts (home page and navbar).
+ */
+export const QUICK_START_RULE_SET_IDS = ["classic-15", "bwf-21", "long-30"];
+
+/** The rule set used when none is specified (BWF 21-point, best of 3). */
+export const DEFAULT_RULE_SET: RuleSet = RULE_SET_PRESETS[1];
+
+/**
+ * Looks up a preset in the registry by its id.
+ *
+ * @param {string} id - The preset id (e.g., "bwf-21").
+ * @returns {RuleSet | undefined} The matching preset, if any.
+ */
+export const getRuleSet = (id: string): RuleSet | undefined =>
+  RULE_SET_PRESETS.find((rules) => rules.id === id);
+
+/**
+ * Returns the presets offered as one-tap shortcuts, in registry order.
+ *
+ * @returns {RuleSet[]} The quick-start presets.
+ */
+export const getQuickStartRuleSets = (): RuleSet[] =>
+  RULE_SET_PRESETS.filter((rules) => QUICK_START_RULE_SET_IDS.includes(rules.id));
+
+/**
+ * @summary Builds a user-defined rule set from the custom-rules editor.
+ *
+ * @param {Omit<RuleSet, "id" | "name">} config - The custom format values.
+ * @returns {RuleSet} The rule set, with id "custom" and a generated name.
+ */
+export const createCustomRuleSet = (
+  config: Omit<RuleSet, "id" | "name">
+): RuleSet => ({
+  ...config,
+  id: "custom",
+  name: `Custom ${config.target}`,
+});
+
+/**
+ * @summary Gets the points each side starts every game with.
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @returns {Handicap} The handicap, or 0-0 if none is set.
+ */
+export const getHandicap = (rules: RuleSet): Handicap =>
+  rules.handicap ?? { pointsA: 0, pointsB: 0 };
+
+/**
+ * @summary Whether either side starts its games above zero.
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @returns {boolean} `true` if a handicap is in play.
+ */
+export const hasHandicap = (rules: RuleSet): boolean => {
+  const { pointsA, pointsB } = getHandicap(rules);
+  return pointsA > 0 || pointsB > 0;
+};
+
+/**
+ * @summary Whether only the serving side can score (legacy side-out scoring).
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @returns {boolean} `true` for side-out scoring.
+ */
+export const isSideOut = (rules: RuleSet): boolean =>
+  rules.scoring === "SIDE_OUT";
+
+/**
+ * @summary Gets the target a side-out game can be set to at a tied score.
+ * @description Under the pre-2006 laws a 15-point game can be set at 13-all
+ * (to 18) and, if it was not, at 14-all (to 17). In general: at two below the
+ * target to three above it, and at one below the target to two above it.
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @param {number} pointsA - Points for Team A.
+ * @param {number} pointsB - Points for Team B.
+ * @returns {number | null} The target if set, or `null` if the score cannot be set.
+ */
+export const getSettingTarget = (
+  rules: RuleSet,
+  pointsA: number,
+  pointsB: number
+): number | null => {
+  if (!isSideOut(rules) || pointsA !== pointsB) return null;
+  if (pointsA === rules.target - 2) return rules.target + 3;
+  if (pointsA === rules.target - 1) return rules.target + 2;
+  return null;
+};
+
+/**
+ * @summary Describes how a game is decided once the target is reached.
+ * @description Used as the small print under a preset (e.g., "Max 30",
+ * "No cap", "No deuce", "Setting at 13-all").
+ *
+ * @param {RuleSet} rules - The rule set to describe.
+ * @returns {string} A short, human readable description.
+ */
+export const describeRuleSet = (rules: RuleSet): string => {
+  if (isSideOut(rules)) return "Setting at 13-all";
+  if (rules.winBy <= 1) return "No deuce";
+  if (rules.cap === null) return "No cap";
+  return `Max ${rules.cap}`;
+};
+
+/**
+ * @summary Determines whether a game is over under the given rules.
+ *
+ * @description
+ * A side wins the game when either:
+ * - it has reached `target` points and leads by at least `winBy`, or
+ * - it has reached the `cap` (if any), regardless of the lead.
+ *
+ * A side-out game that has been set is played to `setTo` instead of `target`.
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @param {number} pointsA - Points for Team A.
+ * @param {number} pointsB - Points for Team B.
+ * @param {number | null} [setTo] - The target the game was set to, if any.
+ * @returns {"A" | "B" | null} The winning side, or `null` if the game continues.
+ */
+export const getGameWinner = (
+  rules: RuleSet,
+  pointsA: number,
+  pointsB: number,
+  setTo: number | null = null
+): "A" | "B" | null => {
+  const target = setTo ?? rules.target;
+  const hasWon = (own: number, other: number) =>
+    (own >= target && own - other >= rules.winBy) ||
+    (rules.cap !== null && own >= rules.cap);
+
+  if (hasWon(pointsA, pointsB)) return "A";
+  if (hasWon(pointsB, pointsA)) return "B";
+  return null;
+};
+
+/**
+ * @summary Gets the score at which the mid-game break happens.
+ * @description The leading side reaching this score triggers the mid-game
+ * interval and, in the deciding game, the change of ends (11 in a 21-point
+ * game, 8 in a 15-point game).
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @returns {number} Half the target score, rounded up.
+ */
+export const getMidGamePoint = (rules: RuleSet): number =>
+  Math.ceil(rules.target / 2);
+
+/**
+ * @summary Checks whether a score entered by hand can be played on from.
+ * @description The score must leave both the current game and the match open:
+ * no side may have won the game, or the games needed to win the match.
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @param {Omit<EditedScore, "servingSide">} score - The points and games entered.
+ * @returns {boolean} `true` if play can continue from the score.
+ */
+export const isPlayableScore = (
+  rules: RuleSet,
+  score: Omit<EditedScore, "servingSide">
+): boolean => {
+  const gamesToWin = getGamesToWin(rules.gamesPerMatch);
+  return (
+    getGameWinner(rules, score.pointsA, score.pointsB) === null &&
+    score.setsA < gamesToWin &&
+    score.setsB < gamesToWin
+  );
+};
+
+/**
+ * @summary Checks whether a match can be resumed from the given score.
+ * @description Every game already played must have been won under the rules,
+ * and the current score must still be playable (see `isPlayableScore`).
+ *
+ * @param {RuleSet} rules - The rule set in play.
+ * @param {ResumeScore} resume - The games already played and the current score.
+ * @returns {boolean} `true` if the score is a match in progress.
+ */
+export const isResumableScore = (
+  rules: RuleSet,
+  resume: ResumeScore
+): boolean => {
+  const winners = resume.completedGames.map((game) =>
+    getGameWinner(rules, game.pointsA, game.pointsB)
+  );
+  if (winners.includes(null)) return false;
+
+  return isPlayableScore(rules, {
+    pointsA: resume.pointsA,
+    pointsB: resume.pointsB,
+    setsA: winners.filter((side) => side === "A").length,
+    setsB: winners.filter((side) => side === "B").length,
+  });
+};
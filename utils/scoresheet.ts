@@ -0,0 +1,154 @@
+/**
+ * Represents a snapshot of the match state at a single point in time.
+ * NOTE: This type must be kept in sync with the 'PointSnapshot' type in types/match.ts.
+ */
+type PointSnapshot = {
+  pointsA: number;
+  pointsB: number;
+  serverSide: "A" | "B" | null;
+  currentServer: string | null;
+  currentReceiver: string | null;
+  nextServer: string | null;
+  scoreEdits: number;
+  servesLost?: number;
+};
+
+/**
+ * Represents a completed or in-progress game (set).
+ * NOTE: This type must be kept in sync with the 'GameSnapshot' type in types/match.ts.
+ */
+type GameSnapshot = {
+  gameNumber: number;
+  pointsA: number;
+  pointsB: number;
+  winnerSide: "A" | "B" | null;
+  duration: number;
+  pointHistory: PointSnapshot[];
+  incomplete: boolean;
+  resumed: boolean;
+};
+
+/**
+ * @summary One player's row of a game on the scoresheet.
+ */
+export type ScoresheetRow = {
+  /** The player's name. */
+  name: string;
+  /** The player's side. */
+  side: "A" | "B";
+  /** One cell per column: the score written in this row, or "" if none. */
+  cells: string[];
+};
+
+/**
+ * @summary One game of the scoresheet.
+ */
+export type ScoresheetGame = {
+  gameNumber: number;
+  pointsA: number;
+  pointsB: number;
+  winnerSide: "A" | "B" | null;
+  /** The duration of the game in seconds. */
+  duration: number;
+  incomplete: boolean;
+  /** True if only the final score was entered; the game has no columns. */
+  resumed: boolean;
+  /** The rows of team A's players, then team B's. */
+  rows: ScoresheetRow[];
+};
+
+/**
+ * @summary
+ * Lays out the games of a match as on the BWF umpire scoresheet.
+ *
+ * @description
+ * Each game has a row per player and a column per rally. The first column
+ * holds the starting score of each side, in the rows of the first server and
+ * receiver. After each rally, the new score of the side that won it is
+ * written in the row of that side's server, the player who serves next, so
+ * reading a row shows the running score that player served at. The last
+ * rally of a game keeps the serve of before the rally, so the server is
+ * worked out from the rally winner: the same server if the serving side won,
+ * otherwise the receiving side's next server. Under side-out scoring a rally
+ * the serving side lost scores nothing: its column holds the score of the
+ * side now serving, in the row of the new server (the partner on a change of
+ * hand). Lets and manual score edits are not rallies and get no column.
+ *
+ * @param {GameSnapshot[]} matchHistory - Every game of the match.
+ * @param {{ teamA: string[]; teamB: string[] }} players - The player rosters, for the row order.
+ * @returns {ScoresheetGame[]} The games, with one cell per column in every row.
+ */
+export function createScoresheet(
+  matchHistory: GameSnapshot[],
+  players: { teamA: string[]; teamB: string[] }
+): ScoresheetGame[] {
+  return matchHistory.map((game) => {
+    const rowsOf = (names: string[], side: "A" | "B") =>
+      names.map((name): ScoresheetRow => ({ name, side, cells: [] }));
+    const rows = [...rowsOf(players.teamA, "A"), ...rowsOf(players.teamB, "B")];
+
+    /** Adds a column with `score` written in the row of `player`. */
+    const addColumn = (entries: { player: string | null; score: number }[]) =>
+      rows.forEach((row) => {
+        const entry = entries.find((e) => e.player === row.name);
+        row.cells.push(entry ? String(entry.score) : "");
+      });
+
+    const scoreOf = (snapshot: PointSnapshot, side: "A" | "B" | null) =>
+      side === "A" ? snapshot.pointsA : snapshot.pointsB;
+
+    const [first, ...rest] = game.pointHistory;
+    if (first) {
+      const receiverSide = first.serverSide === "A" ? "B" : "A";
+      addColumn([
+        {
+          player: first.currentServer,
+          score: scoreOf(first, first.serverSide),
+        },
+        { player: first.currentReceiver, score: scoreOf(first, receiverSide) },
+      ]);
+    }
+
+    rest.forEach((after, idx) => {
+      const before = game.pointHistory[idx];
+      if (after.scoreEdits > before.scoreEdits) return;
+
+      if ((after.servesLost ?? 0) > (before.servesLost ?? 0)) {
+        addColumn([
+          {
+            player: after.currentServer,
+            score: scoreOf(after, after.serverSide),
+          },
+        ]);
+        return;
+      }
+
+      const winner =
+        after.pointsA > before.pointsA
+          ? "A"
+          : after.pointsB > before.pointsB
+            ? "B"
+            : null;
+      if (winner === null) return;
+
+      const server =
+        after.serverSide === winner
+          ? after.currentServer
+          : winner === before.serverSide
+            ? before.currentServer
+            : before.nextServer;
+      addColumn([{ player: server, score: scoreOf(after, winner) }]);
+    });
+
+    return {
+      gameNumber: game.gameNumber,
+      pointsA: game.pointsA,
+      pointsB: game.pointsB,
+      winnerSide: game.winnerSide,
+      duration: game.duration,
+      incomplete: game.incomplete,
+      resumed: game.resumed,
+      rows,
+    };
+  });
+}
@@ -1,3 +1,6 @@
+import { RuleSet } from "@/types/match";
+import { getGameWinner, getHandicap } from "./ruleSets";
+
 /**
  * Represents a snapshot of the match state at a single point in time.
  * NOTE: This type must be kept in sync with the 'PointSnapshot' type in Page.tsx.
@@ -9,6 +12,10 @@ type PointSnapshot = {
   currentServer: string | null;
   currentReceiver: string | null;
   serveIndex: number;
+  lets: number;
+  scoreEdits: number;
+  servesLost?: number;
+  setTo?: number | null;
 };
 
 /**
@@ -22,6 +29,8 @@ type GameSnapshot = {
   duration: number;
   pointHistory: PointSnapshot[];
   gameNumber: number;
+  incomplete: boolean;
+  resumed: boolean;
 };
 
 /**
@@ -31,6 +40,7 @@ export type GameStats = {
   totalPointsWonA: number;
   totalPointsWonB: number;
   totalPointsPlayed: number;
+  lets: number;
   mostConsecutivePointsA: number;
   mostConsecutivePointsB: number;
   gamePointsA: number;
@@ -45,6 +55,7 @@ export type MatchStats = {
   totalPointsWonA: number;
   totalPointsWonB: number;
   totalPointsPlayed: number;
+  lets: number;
   mostConsecutivePointsA: number;
   mostConsecutivePointsB: number;
   gamePointsA: number;
@@ -53,19 +64,39 @@ export type MatchStats = {
 
 /**
  * Analyzes the point-by-point history of a single game to calculate detailed statistics.
+ * Works the same for finished, in-progress and incomplete games (a match ended
+ * by retirement or disqualification): only the rallies actually played count.
+ * A game entered by hand when resuming a match has no point history, so only
+ * its score-based totals are known. Handicap starting points are not points
+ * won, so they are left out of the totals.
  *
  * @param {GameSnapshot} game - The game snapshot, including its full pointHistory.
- * @param {number} scoringSystem - The target score (e.g., 21) needed to correctly identify 'game point' situations.
+ * @param {RuleSet} rules - The rule set in play, needed to correctly identify 'game point' situations.
  * @returns {GameStats} An object containing the calculated statistics for the game.
  */
 export const calculateGameStats = (
   game: GameSnapshot,
-  scoringSystem: number
+  rules: RuleSet
 ): GameStats => {
+  // Lets are rallies too, but no point was played out
+  const lets = game.pointHistory[game.pointHistory.length - 1]?.lets ?? 0;
+  // Manual score edits are history entries, but not rallies
+  const scoreEdits =
+    game.pointHistory[game.pointHistory.length - 1]?.scoreEdits ?? 0;
+
+  const handicap = getHandicap(rules);
+
   const stats: GameStats = {
-    totalPointsWonA: game.pointsA,
-    totalPointsWonB: game.pointsB,
-    totalPointsPlayed: game.pointHistory.length,
+    totalPointsWonA: game.pointsA - handicap.pointsA,
+    totalPointsWonB: game.pointsB - handicap.pointsB,
+    // The history holds the [0, 0] state plus one snapshot per rally (a serve
+    // lost under side-out scoring included), whether the game was won, is in
+    // progress or was cut short (incomplete).
+    // A resumed game has only its final score, and every rally scores a point.
+    totalPointsPlayed: game.resumed
+      ? game.pointsA + game.pointsB - handicap.pointsA - handicap.pointsB
+      : Math.max(0, game.pointHistory.length - 1 - lets - scoreEdits),
+    lets,
     mostConsecutivePointsA: 0,
     mostConsecutivePointsB: 0,
     gamePointsA: 0,
@@ -80,8 +111,11 @@ export const calculateGameStats = (
     const prev = game.pointHistory[i - 1];
     const curr = game.pointHistory[i];
 
-    // Check for consecutive point streaks
-    if (curr.pointsA > prev.pointsA) {
+    // Check for consecutive point streaks (a score edit breaks any streak)
+    if (curr.scoreEdits > prev.scoreEdits) {
+      currentStreakA = 0;
+      currentStreakB = 0;
+    } else if (curr.pointsA > prev.pointsA) {
       // Team A scored
       currentStreakA++;
       currentStreakB = 0;
@@ -95,31 +129,24 @@ export const calculateGameStats = (
       if (currentStreakB > stats.mostConsecutivePointsB) {
         stats.mostConsecutivePointsB = currentStreakB;
       }
+    } else if ((curr.servesLost ?? 0) > (prev.servesLost ?? 0)) {
+      // Side-out scoring: the serving side lost the rally, ending its streak
+      if (prev.serverSide === "A") currentStreakA = 0;
+      if (prev.serverSide === "B") currentStreakB = 0;
     }
 
-    // Check for Game Point opportunities
-    const gamePointThreshold = scoringSystem - 1; // e.g., 20 in a 21-point game
-    const deuceThreshold = scoringSystem; // e.g., 21
-
-    // 1. Standard game point (e.g., 20-18)
-    if (
-      curr.pointsA === gamePointThreshold &&
-      curr.pointsB < gamePointThreshold
-    ) {
-      stats.gamePointsA++;
-    }
-    if (
-      curr.pointsB === gamePointThreshold &&
-      curr.pointsA < gamePointThreshold
-    ) {
-      stats.gamePointsB++;
-    }
-    // 2. Deuce/Advantage game point (e.g., 21-20, 22-21, etc.)
-    if (curr.pointsA >= deuceThreshold && curr.pointsA === curr.pointsB + 1) {
-      stats.gamePointsA++;
-    }
-    if (curr.pointsB >= deuceThreshold && curr.pointsB === curr.pointsA + 1) {
-      stats.gamePointsB++;
+    // Check for Game Point opportunities: the game is still open, and one more
+    // point would win it under the current rules (e.g., 20-18, 21-20, 29-29),
+    // or the target a side-out game was set to (e.g., 17-17, set to 18).
+    const winnerAt = (pointsA: number, pointsB: number) =>
+      getGameWinner(rules, pointsA, pointsB, curr.setTo ?? null);
+    if (winnerAt(curr.pointsA, curr.pointsB) === null) {
+      if (winnerAt(curr.pointsA + 1, curr.pointsB) === "A") {
+        stats.gamePointsA++;
+      }
+      if (winnerAt(curr.pointsA, curr.pointsB + 1) === "B") {
+        stats.gamePointsB++;
+      }
     }
   }
 
@@ -130,16 +157,16 @@ export const calculateGameStats = (
  * Aggregates statistics from all games in a match into a single MatchStats object.
  *
  * @param {GameSnapshot[]} matchHistory - An array of all game snapshots for the match.
- * @param {number} scoringSystem - The target score, passed down to calculateGameStats.
+ * @param {RuleSet} rules - The rule set in play, passed down to calculateGameStats.
  * @returns {MatchStats} An object containing the combined statistics for the entire match.
  */
 export const calculateMatchStats = (
   matchHistory: GameSnapshot[],
-  scoringSystem: number
+  rules: RuleSet
 ): MatchStats => {
   // 1. Calculate stats for each game individually
   const allGameStats = matchHistory.map((game) =>
-    calculateGameStats(game, scoringSystem)
+    calculateGameStats(game, rules)
   );
 
   // 2. Aggregate all game stats into one MatchStats object
@@ -149,6 +176,7 @@ export const calculateMatchStats = (
       acc.totalPointsWonA += stats.totalPointsWonA;
       acc.totalPointsWonB += stats.totalPointsWonB;
       acc.totalPointsPlayed += stats.totalPointsPlayed;
+      acc.lets += stats.lets;
       acc.gamePointsA += stats.gamePointsA;
       acc.gamePointsB += stats.gamePointsB;
 
@@ -166,6 +194,7 @@ export const calculateMatchStats = (
       totalPointsWonA: 0,
       totalPointsWonB: 0,
       totalPointsPlayed: 0,
+      lets: 0,
       mostConsecutivePointsA: 0,
       mostConsecutivePointsB: 0,
       gamePointsA: 0,
@@ -0,0 +1,77 @@
+import { Players, TeamFormat } from "../types/match";
+
+/**
+ * @summary Gets the team format from the number of players on each side.
+ * @param {Players} players - The player rosters for both teams.
+ * @returns {TeamFormat} `SINGLES`, `DOUBLES` or `TRIPLES`.
+ */
+export const getTeamFormat = (players: Players): TeamFormat => {
+  if (players.teamA.length >= 3) return "TRIPLES";
+  if (players.teamA.length === 2) return "DOUBLES";
+  return "SINGLES";
+};
+
+/**
+ * @summary Whether the match is AirBadminton triples (3 v 3).
+ * @param {Players} players - The player rosters for both teams.
+ * @returns {boolean} True for three players on each side.
+ */
+export const isTriples = (players: Players) =>
+  getTeamFormat(players) === "TRIPLES";
+
+/**
+ * @summary
+ * Builds the serve rotation for a game of triples.
+ *
+ * @description
+ * AirBadminton triples has no service courts, so nobody changes position
+ * with the score. A side keeps its server while it wins rallies; each time
+ * it wins back the serve, its next player in roster order serves. The
+ * rotation therefore alternates the two sides, each starting from the given
+ * player: `[server, receiver, server's next, receiver's next, ...]`.
+ *
+ * The receiver is always the receiving side's next server (the player after
+ * the current index in the rotation), so every player receives in turn too.
+ *
+ * @param {string[]} servingTeam - The roster of the side serving first.
+ * @param {string} serverName - The player serving first.
+ * @param {string[]} receivingTeam - The roster of the side receiving first.
+ * @param {string} receiverName - The player receiving first.
+ * @returns {string[]} The rotation, six players long.
+ */
+export function getTriplesServeOrder(
+  servingTeam: string[],
+  serverName: string,
+  receivingTeam: string[],
+  receiverName: string
+): string[] {
+  const fromPlayer = (team: string[], name: string) => {
+    const start = Math.max(0, team.indexOf(name));
+    return team.map((_, i) => team[(start + i) % team.length]);
+  };
+
+  const servers = fromPlayer(servingTeam, serverName);
+  const receivers = fromPlayer(receivingTeam, receiverName);
+
+  return servers.flatMap((server, i) => [server, receivers[i]]);
+}
+
+/**
+ * @summary Finds a side's next server in the rotation, after the current index.
+ * @description Used in triples, where that player is also the side's receiver.
+ * @param {string[]} serveOrder - The serve rotation.
+ * @param {number} serveIndex - The current index in the rotation.
+ * @param {string[]} team - The roster of the side.
+ * @returns {string} The side's next server (the first player if none is found).
+ */
+export function getNextInRotation(
+  serveOrder: string[],
+  serveIndex: number,
+  team: string[]
+): string {
+  for (let i = 1; i <= serveOrder.length; i++) {
+    const player = serveOrder[(serveIndex + i) % serveOrder.length];
+    if (team.includes(player)) return player;
+  }
+  return team[0];
+}